@@ -7,13 +7,32 @@ import type { DeckHandle } from '../components/Deck';
 import Crossfader from '../components/Crossfader';
 import CameraHUD from '../components/CameraHUD';
 import Settings from '../components/Settings';
+import RecorderPanel from '../components/RecorderPanel';
+import HeadphoneCue from '../components/HeadphoneCue';
+import Library from '../components/Library';
+import AutomixPanel from '../components/AutomixPanel';
+import SamplerPanel from '../components/SamplerPanel';
+import SessionPanel from '../components/SessionPanel';
+import AutomationPanel from '../components/AutomationPanel';
 import audioEngine from '../lib/audio/engineInstance';
+import { DECK_IDS } from '../lib/audio/AudioEngine';
+import type { DeckCount } from '../lib/audio/AudioEngine';
+import { restoreSession } from '../lib/audio/Session';
+import type { Session } from '../lib/audio/Session';
+
+const DECK_COUNT_KEY = 'gesturedj:deckCount';
 
 export default function Page() {
   const [started, setStarted] = useState(false);
   const [cf, setCf] = useState(0.5);
   const deckARef = useRef<DeckHandle>(null);
   const deckBRef = useRef<DeckHandle>(null);
+  const deckCRef = useRef<DeckHandle>(null);
+  const deckDRef = useRef<DeckHandle>(null);
+  const [deckCount, setDeckCount] = useState<DeckCount>(2);
+  const deckIds = DECK_IDS.slice(0, deckCount);
+  // last restored session; its knob positions are handed to the decks once they are mounted
+  const [restored, setRestored] = useState<Session | null>(null);
 
   function handleStart() {
     setStarted(true);
@@ -25,33 +44,69 @@ export default function Page() {
     audioEngine.setCrossfade(v);
   }
 
+  function changeDeckCount(n: DeckCount) {
+    setDeckCount(n);
+    audioEngine.configureDecks(n);
+    try {
+      localStorage.setItem(DECK_COUNT_KEY, String(n));
+    } catch (e) {}
+  }
+
+  useEffect(() => {
+    try {
+      if (localStorage.getItem(DECK_COUNT_KEY) === '4') changeDeckCount(4);
+    } catch (e) {}
+  }, []);
+
+  async function onRestoreSession(session: Session) {
+    changeDeckCount(session.deckCount);
+    const missing = await restoreSession(audioEngine, session);
+    setCf(session.crossfader.position);
+    setRestored(session);
+    return missing;
+  }
+
+  useEffect(() => {
+    if (!restored) return;
+    const refs = { A: deckARef, B: deckBRef, C: deckCRef, D: deckDRef };
+    DECK_IDS.forEach((id) => {
+      const deck = restored.decks[id];
+      if (deck) refs[id].current?.restoreControls(deck);
+    });
+  }, [restored]);
+
+  // automix moves the crossfader on its own; keep the slider in step with the engine
+  useEffect(() => {
+    let raf = 0;
+    function tick() {
+      const x = audioEngine.getCrossfaderSettings().position;
+      setCf((v) => (v === x ? v : x));
+      raf = requestAnimationFrame(tick);
+    }
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, []);
+
   // Pass deck refs to CameraHUD via context or callback
   useEffect(() => {
-    (window as any).__deckRefs = { A: deckARef, B: deckBRef };
+    (window as any).__deckRefs = { A: deckARef, B: deckBRef, C: deckCRef, D: deckDRef };
   }, []);
 
   useEffect(() => {
     function onKey(e: KeyboardEvent) {
       const tag = (document.activeElement && (document.activeElement as HTMLElement).tagName) || '';
       if (tag === 'INPUT' || tag === 'TEXTAREA') return;
+      const ids = audioEngine.getDeckIds();
       if (e.code === 'Space') {
-        // toggle both decks: if either playing, pause both; otherwise play both
-        const a = audioEngine.getDeckInfo('A').isPlaying;
-        const b = audioEngine.getDeckInfo('B').isPlaying;
-        if (a || b) {
-          audioEngine.pauseDeck('A');
-          audioEngine.pauseDeck('B');
-        } else {
-          audioEngine.playDeck('A');
-          audioEngine.playDeck('B');
-        }
+        // toggle all decks: if any is playing, pause all; otherwise play all
+        if (ids.some((d) => audioEngine.getDeckInfo(d).isPlaying)) ids.forEach((d) => audioEngine.pauseDeck(d));
+        else ids.forEach((d) => audioEngine.playDeck(d));
         e.preventDefault();
-      } else if (e.key === '1') {
-        const info = audioEngine.getDeckInfo('A');
-        if (info.isPlaying) audioEngine.pauseDeck('A'); else audioEngine.playDeck('A');
-      } else if (e.key === '2') {
-        const info = audioEngine.getDeckInfo('B');
-        if (info.isPlaying) audioEngine.pauseDeck('B'); else audioEngine.playDeck('B');
+      } else if (['1', '2', '3', '4'].includes(e.key) && Number(e.key) <= ids.length) {
+        // 1-4 toggle decks A-D
+        const d = ids[Number(e.key) - 1];
+        const info = audioEngine.getDeckInfo(d);
+        if (info.isPlaying) audioEngine.pauseDeck(d); else audioEngine.playDeck(d);
       } else if (e.key === 'ArrowLeft') {
         const nv = Math.max(0, cf - 0.05);
         setCf(nv); audioEngine.setCrossfade(nv);
@@ -72,6 +127,17 @@ export default function Page() {
           <h1 className="text-3xl font-semibold leading-tight">GestureDJ</h1>
         </div>
         <div className="space-x-3 flex items-center">
+          <div className="flex text-xs" title="Number of decks">
+            {([2, 4] as DeckCount[]).map((n) => (
+              <button
+                key={n}
+                onClick={() => changeDeckCount(n)}
+                className={`px-2.5 py-2 border first:rounded-l-lg last:rounded-r-lg ${deckCount === n ? 'border-purple-500/30 text-white bg-white/10' : 'border-white/10 text-gray-400'}`}
+              >
+                {n} decks
+              </button>
+            ))}
+          </div>
           <motion.button
             whileTap={{ scale: 0.96 }}
             onClick={handleStart}
@@ -86,11 +152,30 @@ export default function Page() {
       </header>
 
       <section className="grid gap-5 md:grid-cols-[1fr,minmax(320px,420px),1fr] items-start">
-        <div className="col-span-1"><Deck ref={deckARef} id="A" /></div>
+        <div className="col-span-1 flex flex-col gap-5">
+          <Deck ref={deckARef} id="A" />
+          {deckCount === 4 && <Deck ref={deckCRef} id="C" />}
+        </div>
         <div className="col-span-1 flex flex-col items-center gap-4">
           <Crossfader value={cf} onChange={onCrossfade} />
+          <HeadphoneCue />
+          <RecorderPanel />
+          <AutomixPanel />
+          <SessionPanel onRestore={onRestoreSession} />
+          <AutomationPanel onRestore={onRestoreSession} />
         </div>
-        <div className="col-span-1"><Deck ref={deckBRef} id="B" /></div>
+        <div className="col-span-1 flex flex-col gap-5">
+          <Deck ref={deckBRef} id="B" />
+          {deckCount === 4 && <Deck ref={deckDRef} id="D" />}
+        </div>
+      </section>
+
+      <section className="mt-6">
+        <SamplerPanel />
+      </section>
+
+      <section className="mt-6">
+        <Library decks={deckIds} />
       </section>
 
       <div className="mt-8 flex justify-center">
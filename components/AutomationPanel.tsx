@@ -0,0 +1,157 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { automation } from '../lib/audio/engineInstance';
+import type { AutomationEvent, AutomationState } from '../lib/audio/Automation';
+import type { Session } from '../lib/audio/Session';
+
+type AutomationPanelProps = {
+  // restores a take's start state into the engine and the deck controls; resolves to the missing library ids
+  onRestore: (session: Session) => Promise<string[]>;
+};
+
+function formatElapsed(s: number) {
+  const m = Math.floor(s / 60);
+  const ss = Math.floor(s % 60)
+    .toString()
+    .padStart(2, '0');
+  const ds = Math.floor((s * 10) % 10);
+  return `${m}:${ss}.${ds}`;
+}
+
+// short description of an event for the status line, e.g. "setDeckEQ A"
+function describe(event: AutomationEvent) {
+  const deck = typeof event.args[0] === 'string' && /^[A-D]$/.test(event.args[0]) ? ` ${event.args[0]}` : '';
+  return `${event.method}${deck}`;
+}
+
+export default function AutomationPanel({ onRestore }: AutomationPanelProps) {
+  const [state, setState] = useState<AutomationState>(() => automation.getState());
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const rafRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    function tick() {
+      setState(automation.getState());
+      rafRef.current = requestAnimationFrame(tick);
+    }
+    rafRef.current = requestAnimationFrame(tick);
+    return () => {
+      if (rafRef.current) cancelAnimationFrame(rafRef.current);
+    };
+  }, []);
+
+  function toggleRecord() {
+    setMessage(null);
+    if (state.recording) automation.stopRecording();
+    else automation.startRecording();
+  }
+
+  async function play(takeId: number) {
+    const take = automation.getTake(takeId);
+    if (!take) return;
+    setBusy(true);
+    setMessage(null);
+    try {
+      // the start state's tracks and the ones the take loads later
+      const missing = new Set([...(await onRestore(take.start)), ...(await automation.missingTracks(takeId))]);
+      if (missing.size) setMessage(`${missing.size} track${missing.size > 1 ? 's' : ''} not in the library`);
+      automation.play(takeId);
+    } catch (e) {
+      console.warn('Could not restore the take start state', e);
+      setMessage('Could not restore the take');
+    }
+    setBusy(false);
+  }
+
+  function exportTake(takeId: number, name: string) {
+    const json = automation.exportTake(takeId);
+    if (!json) return;
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `gesturedj-${name.toLowerCase().replace(/\s+/g, '-')}.json`;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  async function onImport(e: React.ChangeEvent<HTMLInputElement>) {
+    const f = e.target.files?.[0];
+    e.target.value = '';
+    if (!f) return;
+    try {
+      automation.importTake(await f.text());
+      setMessage(null);
+    } catch (err) {
+      console.warn('Could not read automation file', err);
+      setMessage('Not an automation take');
+    }
+  }
+
+  const status = state.recording
+    ? `Recording ${formatElapsed(state.elapsed)} · ${state.events} events`
+    : state.playing !== null
+      ? `Playing ${formatElapsed(state.elapsed)} · ${state.events} events`
+      : message ?? (state.takes.length ? 'Play a take to replay it from its starting mix' : 'Record to capture every control change');
+
+  return (
+    <motion.div
+      className="p-4 rounded-2xl card-surface neon-outline w-full"
+      initial={{ y: 6, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      transition={{ duration: 0.35, type: 'spring', stiffness: 140, damping: 16 }}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-sm text-gray-300">Automation</div>
+        <div className="flex gap-2 text-xs">
+          <button onClick={() => inputRef.current?.click()} className="px-2 py-1 rounded-md border border-white/10 text-gray-300">
+            Import
+          </button>
+          <input ref={inputRef} className="hidden" type="file" accept="application/json,.json" onChange={onImport} />
+          <button
+            onClick={toggleRecord}
+            disabled={busy || state.playing !== null}
+            className={`px-2 py-1 rounded-md border disabled:opacity-40 ${state.recording ? 'border-red-500/40 text-white bg-red-500/20' : 'border-white/10 text-gray-300'}`}
+          >
+            {state.recording ? 'Stop' : 'Rec'}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-1 text-xs text-gray-300">
+        {state.takes.map((t) => (
+          <div key={t.id} className="flex items-center gap-2">
+            <span className="flex-1 truncate" title={new Date(t.recordedAt).toLocaleString()}>
+              {t.name}
+            </span>
+            <span className="text-[11px] text-gray-500">
+              {formatElapsed(t.duration)} · {t.events}
+            </span>
+            {state.playing === t.id ? (
+              <button onClick={() => automation.stop()} className="px-2 py-1 rounded-md border border-purple-500/30 text-white bg-white/10">
+                Stop
+              </button>
+            ) : (
+              <button onClick={() => play(t.id)} disabled={busy || state.recording} className="px-2 py-1 rounded-md border border-white/10 text-gray-300 disabled:opacity-40">
+                Play
+              </button>
+            )}
+            <button onClick={() => exportTake(t.id, t.name)} className="px-2 py-1 rounded-md border border-white/10 text-gray-300" title="Download the take as JSON">
+              Export
+            </button>
+            <button onClick={() => automation.removeTake(t.id)} className="px-1.5 py-1 rounded-md border border-white/10 text-gray-400" title="Delete take">
+              ×
+            </button>
+          </div>
+        ))}
+        <div className="flex items-center gap-2 text-[11px] text-gray-400">
+          <span className="truncate">{busy ? 'Restoring start state…' : status}</span>
+          {(state.recording || state.playing !== null) && state.last && <span className="ml-auto text-gray-500 truncate">{describe(state.last)}</span>}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
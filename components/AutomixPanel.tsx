@@ -0,0 +1,108 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import audioEngine from '../lib/audio/engineInstance';
+import { AUTOMIX_BARS, AUTOMIX_STYLES } from '../lib/audio/Automix';
+import type { AutomixState } from '../lib/audio/Automix';
+
+function formatCountdown(s: number) {
+  const m = Math.floor(s / 60);
+  const ss = Math.floor(s % 60)
+    .toString()
+    .padStart(2, '0');
+  return `${m}:${ss}`;
+}
+
+function describe(state: AutomixState) {
+  if (state.mixing) return `Mixing ${state.from} → ${state.to}`;
+  if (!state.enabled && !state.away) return 'Off';
+  if (state.from && state.to && state.startsIn !== null) return `${state.from} → ${state.to} in ${formatCountdown(state.startsIn)}`;
+  return 'Waiting for a playing deck and a loaded deck on the other side';
+}
+
+export default function AutomixPanel() {
+  const [state, setState] = useState<AutomixState>(() => audioEngine.getAutomixState());
+  const rafRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    function tick() {
+      setState(audioEngine.getAutomixState());
+      rafRef.current = requestAnimationFrame(tick);
+    }
+    rafRef.current = requestAnimationFrame(tick);
+    return () => {
+      if (rafRef.current) cancelAnimationFrame(rafRef.current);
+    };
+  }, []);
+
+  const on = state.enabled || state.away;
+
+  return (
+    <motion.div
+      className="p-4 rounded-2xl card-surface neon-outline w-full"
+      initial={{ y: 6, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      transition={{ duration: 0.35, type: 'spring', stiffness: 140, damping: 16 }}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-sm text-gray-300">Automix</div>
+        <div className="flex gap-2 text-xs">
+          <button
+            onClick={() => audioEngine.automixNow()}
+            disabled={state.mixing}
+            className="px-2 py-1 rounded-md border border-white/10 text-gray-300 disabled:opacity-40"
+            title="Start the transition now"
+          >
+            Mix now
+          </button>
+          <button
+            onClick={() => audioEngine.setAutomix(!state.enabled)}
+            className={`px-2 py-1 rounded-md border ${on ? 'border-purple-500/30 text-white bg-white/10' : 'border-white/10 text-gray-300'}`}
+          >
+            {state.away ? 'Away' : on ? 'On' : 'Off'}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2 text-xs text-gray-300">
+        <div className="flex items-center gap-2">
+          <div className="w-12 text-gray-400">Style</div>
+          {AUTOMIX_STYLES.map((s) => (
+            <button
+              key={s.style}
+              onClick={() => audioEngine.setAutomixStyle(s.style)}
+              className={`px-2 py-1 rounded-md border ${state.style === s.style ? 'border-purple-500/30 text-white bg-white/10' : 'border-white/10 text-gray-300'}`}
+            >
+              {s.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-12 text-gray-400">Bars</div>
+          {AUTOMIX_BARS.map((b) => (
+            <button
+              key={b}
+              onClick={() => audioEngine.setAutomixBars(b)}
+              className={`px-2 py-1 rounded-md border ${state.bars === b ? 'border-purple-500/30 text-white bg-white/10' : 'border-white/10 text-gray-300'}`}
+            >
+              {b}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-gray-400">
+          <input type="checkbox" checked={state.awayTakeover} onChange={(e) => audioEngine.setAutomixAwayTakeover(e.target.checked)} style={{ accentColor: '#b45bff' }} />
+          Take over when no hands are in view
+        </label>
+        <div className="flex items-center gap-2 text-[11px] text-gray-400">
+          <span className="truncate">{describe(state)}</span>
+          {state.mixing && (
+            <div className="flex-1 h-1 bg-white/10 rounded-full overflow-hidden">
+              <div className="h-full bg-gradient-to-r from-purple-500 to-cyan-400" style={{ width: `${state.progress * 100}%` }} />
+            </div>
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -4,7 +4,26 @@ import React, { useEffect, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
 import HandTracker from '../lib/vision/HandTracker';
 import GestureMapper from '../lib/vision/GestureMapper';
+import type { TapFinger, ThumbPose } from '../lib/vision/GestureMapper';
 import audioEngine from '../lib/audio/engineInstance';
+import type { DeckId } from '../lib/audio/AudioEngine';
+
+// sampler pad (0-based) for each tapping finger, offset by 3 for a hand on the right half
+const TAP_PADS: Record<TapFinger, number> = { middle: 0, ring: 1, pinky: 2 };
+
+// palm rotation per frame (radians) treated as tracking jitter rather than a scratch
+const JOG_DEADZONE = 0.015;
+
+// thumb poses bound to deck transport effects; brake and spinback fire once held,
+// reverse lasts as long as the pose is held
+type TransportAction = 'brake' | 'spinback' | 'reverse';
+const THUMB_BINDINGS: Record<ThumbPose, TransportAction> = { down: 'brake', side: 'spinback', up: 'reverse' };
+const REVERSE_POSES = (Object.keys(THUMB_BINDINGS) as ThumbPose[]).filter((p) => THUMB_BINDINGS[p] === 'reverse');
+
+// hold ids (`thumb_<pose>_<hand>_<deck>`) of the reverse poses on a deck
+function isReverseHold(key: string, deck: DeckId) {
+  return key.endsWith(`_${deck}`) && REVERSE_POSES.some((p) => key.startsWith(`thumb_${p}_`));
+}
 
 const HAND_CONNECTIONS: Array<[number, number]> = [
   [0, 1],
@@ -38,6 +57,8 @@ export default function CameraHUD() {
   const [running, setRunning] = useState(false);
   const lastAngleRef = useRef<Record<number, number>>({});
   const holdTriggeredRef = useRef<Record<string, boolean>>({});
+  // decks a held thumb pose is playing in reverse
+  const reversingRef = useRef<Set<DeckId>>(new Set());
   const [calProgress, setCalProgress] = useState(0);
   const [mappedControls, setMappedControls] = useState<any | null>(null);
   const [gestureStatus, setGestureStatus] = useState<string>('Ready');
@@ -76,6 +97,12 @@ export default function CameraHUD() {
             mapperRef.current.absorbSample(hands[0] as any);
           }
 
+          // one gesture zone per active deck
+          mapperRef.current.setDecks(audioEngine.getDeckIds());
+
+          // automix can take over while nobody is in front of the camera
+          audioEngine.reportHandPresence(hands.length > 0);
+
           // compute mapped controls
           let controls: any = null;
           try {
@@ -86,11 +113,14 @@ export default function CameraHUD() {
             controls = null;
           }
 
+          // decks whose reverse pose is still held this frame
+          const reversing = new Set<DeckId>();
+
           // Apply controls and gestures per-hand
           hands.forEach((landmarks, i) => {
             if (!landmarks || landmarks.length === 0) return;
             const centroidX = landmarks.reduce((s, p) => s + p.x, 0) / landmarks.length;
-            const deck: 'A' | 'B' = centroidX < 0.5 ? 'A' : 'B';
+            const deck: DeckId = mapperRef.current!.deckForHand(i, centroidX);
 
             // play/pause via palm open/close: open palm → play, closed palm → pause
             const wrist = landmarks[0];
@@ -112,8 +142,27 @@ export default function CameraHUD() {
               holdTriggeredRef.current[openPalmId] = false;
             }
 
+            // thumb poses -> transport effects (checked before the fist, which a thumb pose resembles)
+            const pose = mapperRef.current!.thumbPose(landmarks);
+            (Object.keys(THUMB_BINDINGS) as ThumbPose[]).forEach((p) => {
+              const action = THUMB_BINDINGS[p];
+              const poseId = `thumb_${p}_${i}_${deck}`;
+              const held = mapperRef.current!.checkHold(poseId, pose === p, 300);
+              if (held && !holdTriggeredRef.current[poseId]) {
+                if (action === 'brake') audioEngine.brakeDeck(deck);
+                else if (action === 'spinback') audioEngine.spinbackDeck(deck);
+                else audioEngine.setDeckReverse(deck, true);
+                setGestureStatus(`${action === 'brake' ? '🛑 Brake' : action === 'spinback' ? '↺ Spinback' : '⏪ Reverse'} — Deck ${deck}`);
+                if (gestureTimeoutRef.current) clearTimeout(gestureTimeoutRef.current);
+                gestureTimeoutRef.current = window.setTimeout(() => setGestureStatus('Ready'), 1500);
+                holdTriggeredRef.current[poseId] = true;
+              }
+              if (pose !== p) holdTriggeredRef.current[poseId] = false;
+              else if (action === 'reverse' && holdTriggeredRef.current[poseId]) reversing.add(deck);
+            });
+
             // Detect closed palm/fist (fingers closed)
-            const isFist = spread < 0.15; // closed hand threshold
+            const isFist = spread < 0.15 && pose === null; // closed hand threshold
             const fistId = `fist_${i}_${deck}`;
             const heldFist = mapperRef.current!.checkHold(fistId, isFist, 300);
             if (heldFist && !holdTriggeredRef.current[fistId]) {
@@ -127,6 +176,16 @@ export default function CameraHUD() {
               holdTriggeredRef.current[fistId] = false;
             }
 
+            // finger taps (thumb to middle/ring/pinky) -> sampler pads 1-3 on the left half of the frame, 4-6 on the right
+            const taps = mapperRef.current!.detectTaps(i, landmarks, !isFist);
+            taps.forEach((finger) => {
+              const pad = TAP_PADS[finger] + (centroidX < 0.5 ? 0 : 3);
+              audioEngine.triggerSamplerPad(pad);
+              setGestureStatus(`🥁 Pad ${pad + 1}`);
+              if (gestureTimeoutRef.current) clearTimeout(gestureTimeoutRef.current);
+              gestureTimeoutRef.current = window.setTimeout(() => setGestureStatus('Ready'), 800);
+            });
+
             // pinch (thumb-index) -> toggle loop
             const thumb = landmarks[4];
             const index = landmarks[8];
@@ -142,7 +201,7 @@ export default function CameraHUD() {
               const loopStateKey = `loopState_${deck}`;
               const currentLoopState = holdTriggeredRef.current[loopStateKey] || false;
               const newLoopState = !currentLoopState;
-              audioEngine.setDeckLoop(deck, newLoopState, 2);
+              audioEngine.setDeckLoop(deck, newLoopState, 4);
               holdTriggeredRef.current[loopStateKey] = newLoopState;
               setGestureStatus(`✌ Loop ${newLoopState ? 'ON' : 'OFF'} — Deck ${deck}`);
               if (gestureTimeoutRef.current) clearTimeout(gestureTimeoutRef.current);
@@ -153,7 +212,7 @@ export default function CameraHUD() {
               holdTriggeredRef.current[pinchId] = false;
             }
 
-            // palm rotation -> jog
+            // palm rotation -> scratch (the jog velocity drives the platter)
             const midMcp = landmarks[9];
             if (wrist && midMcp) {
               const dx = midMcp.x - wrist.x;
@@ -166,23 +225,27 @@ export default function CameraHUD() {
               lastAngleRef.current[i] = angle;
               const sensitivity = 2.5; // seconds per radian
               const scrubDelta = delta * sensitivity;
-              if (Math.abs(scrubDelta) > 0.0001) {
+              // below the deadzone the hand counts as still, which lets go of the platter
+              if (Math.abs(delta) > JOG_DEADZONE) {
                 audioEngine.jogDeck(deck, scrubDelta);
-                setGestureStatus(`🎚 Jog — Deck ${deck}`);
+                setGestureStatus(`🎚 Scratch — Deck ${deck}`);
                 if (gestureTimeoutRef.current) clearTimeout(gestureTimeoutRef.current);
                 gestureTimeoutRef.current = window.setTimeout(() => setGestureStatus('Ready'), 800);
               }
             }
           });
+          releaseReverse(reversing);
 
           // apply mapped global controls
           if (controls) {
-            (['A', 'B'] as Array<'A' | 'B'>).forEach((d) => {
+            mapperRef.current.getZones().forEach((d) => {
               const c = controls[d];
               if (!c || !c.assigned) return;
               audioEngine.setDeckVolume(d, c.volume);
               audioEngine.setDeckEQ(d, { low: c.eq.low, mid: c.eq.mid, high: c.eq.high });
-              setGestureStatus(`Deck ${d} EQ / Volume`);
+              // the filter goes through the deck's knob, which sends it on to the engine
+              (window as any).__deckRefs?.[d]?.current?.updateFilterFromGesture(c.filter);
+              setGestureStatus(`Deck ${d} EQ / Volume / Filter`);
             });
           }
         }
@@ -194,8 +257,30 @@ export default function CameraHUD() {
     }
   }
 
+  // takes decks out of reverse once no hand holds the pose on them (the hand left the frame or moved
+  // to another deck)
+  function releaseReverse(held: Set<DeckId>) {
+    reversingRef.current.forEach((d) => {
+      if (held.has(d)) return;
+      audioEngine.setDeckReverse(d, false);
+      // the pose has to be held again before it reverses the deck once more
+      Object.keys(holdTriggeredRef.current).forEach((key) => {
+        if (!isReverseHold(key, d)) return;
+        holdTriggeredRef.current[key] = false;
+        mapperRef.current?.checkHold(key, false);
+      });
+    });
+    reversingRef.current = held;
+  }
+
   function stopCamera() {
     setRunning(false);
+    // decks a held pose left in reverse play forwards again
+    reversingRef.current.forEach((d) => {
+      audioEngine.setDeckReverse(d, false);
+      Object.keys(holdTriggeredRef.current).forEach((key) => isReverseHold(key, d) && (holdTriggeredRef.current[key] = false));
+    });
+    reversingRef.current = new Set();
     try {
       trackerRef.current?.stop();
     } catch (e) {}
@@ -229,6 +314,20 @@ export default function CameraHUD() {
     canvas.height = videoHeight;
 
     ctx.clearRect(0, 0, videoWidth, videoHeight);
+
+    // gesture zones: one strip per deck
+    const zones = mapperRef.current?.getZones() ?? [];
+    ctx.font = '14px sans-serif';
+    zones.forEach((d, zi) => {
+      const x0 = (zi / zones.length) * videoWidth;
+      if (zi > 0) {
+        ctx.fillStyle = 'rgba(255,255,255,0.15)';
+        ctx.fillRect(x0 - 0.5, 0, 1, videoHeight);
+      }
+      ctx.fillStyle = 'rgba(255,255,255,0.35)';
+      ctx.fillText(d, x0 + 8, videoHeight - 10);
+    });
+
     ctx.lineWidth = 2.5;
 
     hands.forEach((landmarks, hi) => {
@@ -361,8 +460,11 @@ export default function CameraHUD() {
           className="absolute top-3 right-3 bg-black/55 backdrop-blur-md text-white text-[11px] p-3 rounded-lg border border-white/10 shadow-lg space-y-1"
         >
           <div className="font-semibold text-xs">Active Controls</div>
-          <div className="text-gray-300">Deck A: {mappedControls.A?.assigned ? `${(mappedControls.A.volume * 100).toFixed(0)}%` : '—'}</div>
-          <div className="text-gray-300">Deck B: {mappedControls.B?.assigned ? `${(mappedControls.B.volume * 100).toFixed(0)}%` : '—'}</div>
+          {(Object.keys(mappedControls) as DeckId[]).map((d) => (
+            <div key={d} className="text-gray-300">
+              Deck {d}: {mappedControls[d]?.assigned ? `${(mappedControls[d].volume * 100).toFixed(0)}%` : '—'}
+            </div>
+          ))}
         </motion.div>
       )}
     </motion.div>
@@ -4,16 +4,46 @@ import React, { useEffect, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
 import Meter from './Meter';
 import audioEngine from '../lib/audio/engineInstance';
+import { meterPosition } from '../lib/audio/LevelMeter';
+import type { MeterReading } from '../lib/audio/LevelMeter';
+import { CROSSFADER_CURVES, CUT_IN_MAX, CUT_IN_MIN, DEFAULT_CUT_IN, crossfadeGains } from '../lib/audio/CrossfaderCurves';
+import type { CrossfaderCurve } from '../lib/audio/CrossfaderCurves';
+import { LOUDNESS_TARGETS } from '../lib/audio/AudioEngine';
+
+const PREVIEW_W = 120;
+const PREVIEW_H = 36;
+const PREVIEW_STEPS = 60;
+
+// SVG path of one side's gain across the fader travel
+function curvePath(side: 'left' | 'right', curve: CrossfaderCurve, cutIn: number, hamster: boolean) {
+  const pts: string[] = [];
+  for (let i = 0; i <= PREVIEW_STEPS; i++) {
+    const x = i / PREVIEW_STEPS;
+    const g = crossfadeGains(x, curve, cutIn, hamster)[side];
+    pts.push(`${(x * PREVIEW_W).toFixed(1)},${((1 - g) * (PREVIEW_H - 2) + 1).toFixed(1)}`);
+  }
+  return `M${pts.join('L')}`;
+}
 
 export default function Crossfader({ value = 0.5, onChange }: { value?: number; onChange?: (v: number) => void }) {
-  const [masterLevel, setMasterLevel] = useState(0);
+  const [master, setMaster] = useState<MeterReading | null>(null);
+  const [limiter, setLimiter] = useState(false);
+  const [target, setTarget] = useState(() => audioEngine.getTargetLoudness());
+  const [curve, setCurve] = useState<CrossfaderCurve>('smooth');
+  const [cutIn, setCutIn] = useState(DEFAULT_CUT_IN);
+  const [hamster, setHamster] = useState(false);
   const rafRef = useRef<number | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
 
   useEffect(() => {
     function tick() {
-      const lvl = audioEngine.getMasterLevel();
-      setMasterLevel(lvl);
+      setMaster(audioEngine.getMasterMeter());
+      const xf = audioEngine.getCrossfaderSettings();
+      setCurve(xf.curve);
+      setCutIn(xf.cutIn);
+      setHamster(xf.hamster);
+      setLimiter(audioEngine.isMasterLimiterOn());
+      setTarget(audioEngine.getTargetLoudness());
       rafRef.current = requestAnimationFrame(tick);
     }
     rafRef.current = requestAnimationFrame(tick);
@@ -67,9 +97,35 @@ export default function Crossfader({ value = 0.5, onChange }: { value?: number;
       <div className="flex items-center justify-between mb-3">
         <div className="text-sm text-gray-300">Crossfader</div>
         <div className="flex items-center gap-2">
-          <div className="text-xs text-gray-400">Master</div>
+          <div className="flex flex-col items-end gap-1">
+            <div className="text-xs text-gray-400">Master</div>
+            <div className={`text-[11px] font-mono ${master?.truePeakDb !== undefined && master.truePeakDb > -1 ? 'text-red-400' : 'text-gray-400'}`}>
+              {master?.truePeakDb !== undefined && isFinite(master.truePeakDb) ? `${master.truePeakDb.toFixed(1)} dBTP` : '-∞ dBTP'}
+            </div>
+            <button
+              onClick={() => {
+                audioEngine.setMasterLimiter(!limiter);
+                setLimiter(!limiter);
+              }}
+              className={`px-2 py-0.5 rounded-md border text-[11px] ${limiter ? 'border-purple-500/30 text-white bg-white/10' : 'border-white/10 text-gray-300'}`}
+            >
+              Limiter
+            </button>
+            <button
+              onClick={() => audioEngine.setTargetLoudness(LOUDNESS_TARGETS[(LOUDNESS_TARGETS.indexOf(target) + 1) % LOUDNESS_TARGETS.length])}
+              className="px-2 py-0.5 rounded-md border border-white/10 text-gray-300 text-[11px]"
+              title="Auto-gain target loudness"
+            >
+              {target} LUFS
+            </button>
+          </div>
           <div className="w-12">
-            <Meter level={masterLevel} />
+            <Meter
+              level={master ? meterPosition(master.rms * Math.SQRT2) : 0}
+              hold={master ? meterPosition(master.peakHold) : 0}
+              clip={master?.clip ?? false}
+              onResetClip={() => audioEngine.resetClipIndicators()}
+            />
           </div>
         </div>
       </div>
@@ -93,6 +149,62 @@ export default function Crossfader({ value = 0.5, onChange }: { value?: number;
         <div className="absolute inset-0 pointer-events-none bg-gradient-to-r from-purple-500/10 via-transparent to-cyan-400/10 rounded-full" />
       </div>
 
+      <div className="mt-3 flex items-center gap-3">
+        <svg width={PREVIEW_W} height={PREVIEW_H} viewBox={`0 0 ${PREVIEW_W} ${PREVIEW_H}`} className="shrink-0 rounded bg-white/5" aria-label="Crossfader curve preview">
+          <path d={curvePath('left', curve, cutIn, hamster)} fill="none" stroke="#b45bff" strokeWidth={1.5} />
+          <path d={curvePath('right', curve, cutIn, hamster)} fill="none" stroke="#4fd1ff" strokeWidth={1.5} />
+          <line x1={value * PREVIEW_W} x2={value * PREVIEW_W} y1={0} y2={PREVIEW_H} stroke="rgba(255,255,255,0.4)" strokeWidth={1} />
+        </svg>
+        <div className="flex flex-col gap-1.5 text-[11px]">
+          <div className="flex gap-1">
+            {CROSSFADER_CURVES.map((c) => (
+              <button
+                key={c.curve}
+                onClick={() => {
+                  audioEngine.setCrossfaderCurve(c.curve);
+                  setCurve(c.curve);
+                }}
+                className={`px-1.5 py-0.5 rounded border ${curve === c.curve ? 'border-purple-500/30 text-white bg-white/10' : 'border-white/10 text-gray-400'}`}
+              >
+                {c.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => {
+                audioEngine.setHamster(!hamster);
+                setHamster(!hamster);
+              }}
+              title="Reverse the crossfader"
+              className={`px-1.5 py-0.5 rounded border ${hamster ? 'border-purple-500/30 text-white bg-white/10' : 'border-white/10 text-gray-400'}`}
+            >
+              Hamster
+            </button>
+            {curve === 'scratch' && (
+              <>
+                <span className="text-gray-400">Cut-in</span>
+                <input
+                  type="range"
+                  min={CUT_IN_MIN}
+                  max={CUT_IN_MAX}
+                  step={0.005}
+                  value={cutIn}
+                  onChange={(e) => {
+                    const v = parseFloat(e.target.value);
+                    audioEngine.setCrossfaderCutIn(v);
+                    setCutIn(v);
+                  }}
+                  className="w-16"
+                  style={{ accentColor: '#b45bff' }}
+                />
+                <span className="w-8 text-gray-400">{(cutIn * 100).toFixed(1)}%</span>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
       <div className="mt-2 text-xs text-gray-400">Keyboard: ← / → to nudge, Home/End to jump</div>
     </motion.div>
   );
@@ -3,39 +3,104 @@
 import React, { useEffect, useRef, useState, forwardRef, useImperativeHandle } from 'react';
 import { motion } from 'framer-motion';
 import Waveform from './Waveform';
+import WaveformDetail from './WaveformDetail';
 import Knob from './Knob';
 import Meter from './Meter';
+import HotCuePads from './HotCuePads';
+import FxPanel from './FxPanel';
+import QueueList from './QueueList';
+import { meterPosition } from '../lib/audio/LevelMeter';
+import type { MeterReading } from '../lib/audio/LevelMeter';
+import type { BandWaveform, KeyInfo } from '../lib/audio/TrackAnalyzer';
+import { isHarmonicMatch } from '../lib/audio/Camelot';
 import audioEngine from '../lib/audio/engineInstance';
+import { STOP_TIMES, TEMPO_RANGES, TRIM_RANGE_DB } from '../lib/audio/AudioEngine';
+import type { CrossfaderSide, DeckId, EQSettings, LoopInfo, TempoRange } from '../lib/audio/AudioEngine';
+import { emptyCues } from '../lib/audio/CueStore';
+import type { HotCues } from '../lib/audio/CueStore';
+import type { FxUnitState } from '../lib/audio/fx/FxRack';
+import type { QueueState } from '../lib/audio/DeckQueue';
+import { TRACK_DRAG_TYPE } from '../lib/library/TrackStore';
+import { isAudioFile } from '../lib/library/TrackImport';
+import { DECK_THEME } from './deckTheme';
 
 type DeckProps = {
-  id: 'A' | 'B';
+  id: DeckId;
   className?: string;
 };
 
 export type DeckHandle = {
   updateEQFromGesture: (band: 'low' | 'mid' | 'high', gainDb: number) => void;
+  updateFilterFromGesture: (amount: number) => void;
+  // knob and fader positions the engine was given from outside, e.g. by a restored session
+  restoreControls: (controls: { volume: number; eq: EQSettings; filter: number }) => void;
 };
 
+const XFADER_SIDES: Array<{ side: CrossfaderSide; label: string }> = [
+  { side: 'left', label: 'L' },
+  { side: 'thru', label: 'Thru' },
+  { side: 'right', label: 'R' }
+];
+
+// filter knob position (0..1, 0.5 = off) as LPF/HPF amount
+function formatFilter(v: number) {
+  const a = (v - 0.5) * 2;
+  if (Math.abs(a) < 0.02) return 'Off';
+  return `${a < 0 ? 'LPF' : 'HPF'} ${Math.round(Math.abs(a) * 100)}%`;
+}
+
+// a knob value the engine already holds, e.g. because the knob just followed it
+function held(engine: number, knob: number) {
+  return Math.abs(engine - knob) < 1e-3;
+}
+
 const Deck = forwardRef<DeckHandle, DeckProps>(({ id, className = '' }, ref) => {
   const inputRef = useRef<HTMLInputElement | null>(null);
   const [peaks, setPeaks] = useState<Float32Array | null>(null);
+  const [bands, setBands] = useState<BandWaveform | null>(null);
   const [duration, setDuration] = useState<number | null>(null);
   const [currentTime, setCurrentTime] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [rms, setRms] = useState<number | null>(null);
+  const [meters, setMeters] = useState<{ pre: MeterReading; post: MeterReading } | null>(null);
+  const [bpm, setBpm] = useState<number | null>(null);
+  const [downbeat, setDownbeat] = useState<number | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState(1);
+  const [trackKey, setTrackKey] = useState<KeyInfo | null>(null);
+  const [otherKey, setOtherKey] = useState<KeyInfo | null>(null);
+  // tempo state mirrors the engine (percent offset, fader range, key-lock)
+  const [tempo, setTempo] = useState(0);
+  const [tempoRange, setTempoRange] = useState<TempoRange>(8);
+  const [keyLock, setKeyLock] = useState(false);
+  const [synced, setSynced] = useState(false);
+  const [pfl, setPfl] = useState(false);
+  // trim stage mirrors the engine (dB, auto-gain, total applied gain) with the track's measured loudness
+  const [trim, setTrim] = useState({ trim: 0, autoGain: false, gain: 0 });
+  const [loudness, setLoudness] = useState<number | null>(null);
 
   const [volume, setVolume] = useState(0.82);
   // EQ local state (0..1) mapped to -12..+12 dB
   const [low, setLow] = useState(0.5);
   const [mid, setMid] = useState(0.5);
   const [high, setHigh] = useState(0.5);
+  const [filter, setFilter] = useState(0.5);
+  // values last pushed to the engine by the effects below
+  const sentRef = useRef({ volume: 0.82, eq: { low: 0, mid: 0, high: 0 }, filter: 0 });
 
   // FX & Loop state
-  const [fxOn, setFxOn] = useState(false);
-  const [fxWet, setFxWet] = useState(0.2);
-  const loopLengths = [1, 2, 4, 8];
-  const [loopOn, setLoopOn] = useState(false);
-  const [loopIndex, setLoopIndex] = useState(2); // default 4s
+  const [fx, setFx] = useState<FxUnitState[]>([]);
+  // loop state mirrors the engine (beat-quantized)
+  const [loop, setLoop] = useState<LoopInfo | null>(null);
+  const [loopBeats, setLoopBeats] = useState(4);
+  const [rolling, setRolling] = useState(false);
+  const [hotCues, setHotCues] = useState<HotCues>(emptyCues);
+  const [dragOver, setDragOver] = useState(false);
+  const [xfader, setXfader] = useState<CrossfaderSide>('thru');
+  const [reverse, setReverse] = useState(false);
+  const [stopTime, setStopTime] = useState(1);
+  const [queue, setQueue] = useState<QueueState>({ items: [], armed: false });
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // track on the deck when the tick last ran; a new one clears a stale load error
+  const trackRef = useRef<string | null>(null);
 
   // Expose updateEQFromGesture via ref
   useImperativeHandle(ref, () => ({
@@ -45,54 +110,140 @@ const Deck = forwardRef<DeckHandle, DeckProps>(({ id, className = '' }, ref) =>
       if (band === 'low') setLow(clamped);
       else if (band === 'mid') setMid(clamped);
       else if (band === 'high') setHigh(clamped);
+    },
+    updateFilterFromGesture(amount: number) {
+      setFilter(Math.max(0, Math.min(1, amount / 2 + 0.5)));
+    },
+    restoreControls({ volume, eq, filter }) {
+      setVolume(Math.max(0, Math.min(1, volume)));
+      setLow(Math.max(0, Math.min(1, eq.low / 24 + 0.5)));
+      setMid(Math.max(0, Math.min(1, eq.mid / 24 + 0.5)));
+      setHigh(Math.max(0, Math.min(1, eq.high / 24 + 0.5)));
+      setFilter(Math.max(0, Math.min(1, filter / 2 + 0.5)));
     }
   }), []);
 
   useEffect(() => {
     let raf = 0;
     function tick() {
-      const info = audioEngine.getDeckInfo(id as 'A' | 'B');
+      const info = audioEngine.getDeckInfo(id);
+      if (info.trackId !== trackRef.current) {
+        trackRef.current = info.trackId;
+        setLoadError(null);
+      }
       if (info.duration) setDuration(info.duration);
-      if (info.peaks) setPeaks(info.peaks as Float32Array);
-      if (info.rms !== undefined && info.rms !== null) setRms(info.rms as number);
+      setPeaks((info.peaks as Float32Array | null) ?? null);
+      setBands(info.bands);
+      setAnalysisProgress(info.analysisProgress);
+      setMeters(audioEngine.getDeckMeters(id));
+      setBpm(info.bpm ?? null);
+      setDownbeat(info.downbeat ?? null);
+      setTrackKey(info.key);
+      const ref = audioEngine.getReferenceDeck(id);
+      setOtherKey(ref ? audioEngine.getDeckInfo(ref).key : null);
+      setTempo(info.tempo);
+      setTempoRange(info.tempoRange);
+      setKeyLock(info.keyLock);
+      setSynced(info.synced);
+      setPfl(info.pfl);
+      setTrim((t) => (t.trim === info.trim && t.autoGain === info.autoGain && t.gain === info.gain ? t : { trim: info.trim, autoGain: info.autoGain, gain: info.gain }));
+      setLoudness(info.loudness);
+      setFx(info.fx);
+      setXfader(info.xfader);
+      setReverse(info.reverse);
+      setStopTime(info.stopTime);
+      setQueue(info.queue);
+      setLoop(info.loop);
+      setLoopBeats(info.loopBeats);
+      setRolling(info.rolling);
+      setHotCues(info.hotCues);
       setIsPlaying(Boolean(info.isPlaying));
-      setCurrentTime(audioEngine.getCurrentTime(id as 'A' | 'B'));
+      setCurrentTime(audioEngine.getCurrentTime(id));
+      // automation playback and automix change the mixer from outside: follow the engine when it
+      // no longer holds what this deck last sent
+      const sent = sentRef.current;
+      if (audioEngine.audioCtx) {
+        if (Math.abs(info.volume - sent.volume) > 1e-3) setVolume((sent.volume = info.volume));
+        if (Math.abs(info.eq.low - sent.eq.low) > 1e-3) setLow((sent.eq.low = info.eq.low) / 24 + 0.5);
+        if (Math.abs(info.eq.mid - sent.eq.mid) > 1e-3) setMid((sent.eq.mid = info.eq.mid) / 24 + 0.5);
+        if (Math.abs(info.eq.high - sent.eq.high) > 1e-3) setHigh((sent.eq.high = info.eq.high) / 24 + 0.5);
+        // the engine zeroes the filter inside its center deadzone
+        if (Math.abs(info.filter - sent.filter) > 0.025) setFilter((sent.filter = info.filter) / 2 + 0.5);
+      }
       raf = requestAnimationFrame(tick);
     }
     raf = requestAnimationFrame(tick);
     return () => cancelAnimationFrame(raf);
   }, [id]);
 
-  // sync EQ state to engine
+  // sync EQ state to engine; values the knobs took over from the engine are not sent back, so
+  // automation records an outside change only once
   useEffect(() => {
     const eq = { low: (low - 0.5) * 24, mid: (mid - 0.5) * 24, high: (high - 0.5) * 24 };
-    audioEngine.setDeckEQ(id as 'A' | 'B', eq);
+    sentRef.current.eq = eq;
+    const info = audioEngine.audioCtx ? audioEngine.getDeckInfo(id) : null;
+    if (info && held(info.eq.low, eq.low) && held(info.eq.mid, eq.mid) && held(info.eq.high, eq.high)) return;
+    audioEngine.setDeckEQ(id, eq);
   }, [low, mid, high, id]);
 
   useEffect(() => {
-    audioEngine.setDeckVolume(id as 'A' | 'B', volume);
-  }, [volume, id]);
-
-  useEffect(() => {
-    audioEngine.setDeckFX(id as 'A' | 'B', { wet: fxOn ? fxWet : 0 });
-  }, [fxOn, fxWet, id]);
+    const amount = (filter - 0.5) * 2;
+    sentRef.current.filter = amount;
+    if (audioEngine.audioCtx && held(audioEngine.getDeckInfo(id).filter, amount)) return;
+    audioEngine.setDeckFilter(id, amount);
+  }, [filter, id]);
 
   useEffect(() => {
-    audioEngine.setDeckLoop(id as 'A' | 'B', loopOn, loopLengths[loopIndex]);
-  }, [loopOn, loopIndex, id, loopLengths]);
+    sentRef.current.volume = volume;
+    if (audioEngine.audioCtx && held(audioEngine.getDeckInfo(id).volume, volume)) return;
+    audioEngine.setDeckVolume(id, volume);
+  }, [volume, id]);
 
   function onLoadClick() {
     inputRef.current?.click();
   }
 
+  // loads and queues can fail on a library read or an undecodable file; the header shows why
+  async function attempt(task: () => Promise<void>, failure: string) {
+    setLoadError(null);
+    try {
+      await task();
+    } catch (e) {
+      console.warn(failure, e);
+      setLoadError(failure);
+      return false;
+    }
+    return true;
+  }
+
   async function onFile(e: React.ChangeEvent<HTMLInputElement>) {
     const f = e.target.files?.[0];
     if (!f) return;
-    await audioEngine.loadDeckFromFile(id as 'A' | 'B', f);
-    const info = audioEngine.getDeckInfo(id as 'A' | 'B');
+    if (!(await attempt(() => audioEngine.loadDeckFromFile(id, f), 'Could not load the track'))) return;
+    const info = audioEngine.getDeckInfo(id);
+    if (info.peaks) setPeaks(info.peaks as Float32Array);
+    if (info.duration) setDuration(info.duration as number);
+  }
+
+  // library rows and audio files can be dropped onto the deck
+  function onDragOver(e: React.DragEvent) {
+    if (e.dataTransfer.types.includes(TRACK_DRAG_TYPE) || e.dataTransfer.types.includes('Files')) {
+      e.preventDefault();
+      setDragOver(true);
+    }
+  }
+
+  async function onDrop(e: React.DragEvent) {
+    e.preventDefault();
+    setDragOver(false);
+    const trackId = e.dataTransfer.getData(TRACK_DRAG_TYPE);
+    const f = Array.from(e.dataTransfer.files).find(isAudioFile);
+    if (!trackId && !f) return;
+    const loaded = await attempt(() => (trackId ? audioEngine.loadDeckFromLibrary(id, trackId) : audioEngine.loadDeckFromFile(id, f!)), 'Could not load the track');
+    if (!loaded) return;
+    const info = audioEngine.getDeckInfo(id);
     if (info.peaks) setPeaks(info.peaks as Float32Array);
     if (info.duration) setDuration(info.duration as number);
-    if (info.rms !== undefined && info.rms !== null) setRms(info.rms as number);
   }
 
   function handlePlayPause() {
@@ -105,20 +256,59 @@ const Deck = forwardRef<DeckHandle, DeckProps>(({ id, className = '' }, ref) =>
       return;
     }
     
-    if (isPlaying) audioEngine.pauseDeck(id as 'A' | 'B');
-    else audioEngine.playDeck(id as 'A' | 'B');
+    if (isPlaying) audioEngine.pauseDeck(id);
+    else audioEngine.playDeck(id);
   }
 
   function handleSeek(t: number) {
-    audioEngine.seekDeck(id as 'A' | 'B', t);
+    audioEngine.seekDeck(id, t);
+  }
+
+  function handleTempo(pct: number) {
+    audioEngine.setDeckTempo(id, pct);
+    setTempo(pct);
   }
 
-  function toggleLoopHold() {
-    setLoopOn((s) => !s);
+  function cycleTempoRange() {
+    const next = TEMPO_RANGES[(TEMPO_RANGES.indexOf(tempoRange) + 1) % TEMPO_RANGES.length];
+    audioEngine.setDeckTempoRange(id, next);
+    setTempoRange(next);
   }
 
-  function cycleLoopLength() {
-    setLoopIndex((i) => (i + 1) % loopLengths.length);
+  function toggleKeyLock() {
+    audioEngine.setDeckKeyLock(id, !keyLock);
+    setKeyLock(!keyLock);
+  }
+
+  function toggleSync() {
+    if (synced) {
+      audioEngine.unsyncDeck(id);
+      setSynced(false);
+    } else {
+      setSynced(audioEngine.syncDeck(id));
+    }
+  }
+
+  function cycleStopTime() {
+    const next = STOP_TIMES[(STOP_TIMES.indexOf(stopTime) + 1) % STOP_TIMES.length];
+    audioEngine.setDeckStopTime(id, next);
+    setStopTime(next);
+  }
+
+  function toggleLoop() {
+    audioEngine.setDeckLoop(id, !loop, loopBeats);
+  }
+
+  function startRoll() {
+    audioEngine.startDeckLoopRoll(id, loopBeats);
+  }
+
+  function stopRoll() {
+    audioEngine.stopDeckLoopRoll(id);
+  }
+
+  function formatBeats(b: number) {
+    return b < 1 ? `1/${Math.round(1 / b)}` : `${b}`;
   }
 
   function formatTime(s: number | undefined) {
@@ -130,38 +320,113 @@ const Deck = forwardRef<DeckHandle, DeckProps>(({ id, className = '' }, ref) =>
     return `${m}:${ss}`;
   }
 
-  const accentGradient = id === 'A' ? 'from-purple-500 via-pink-500 to-fuchsia-500' : 'from-cyan-400 via-blue-500 to-indigo-500';
-  const accentText = id === 'A' ? 'text-purple-200' : 'text-cyan-200';
-  const accentBorder = id === 'A' ? 'border-purple-500/30' : 'border-cyan-400/30';
+  const theme = DECK_THEME[id];
+  const accentGradient = theme.gradient;
+  const accentText = theme.text;
+  const accentBorder = theme.border;
 
   return (
     <motion.div
       initial={{ y: 10, opacity: 0 }}
       animate={{ y: 0, opacity: 1 }}
       transition={{ duration: 0.4, type: 'spring', stiffness: 120, damping: 18 }}
-      className={`card-surface neon-outline p-4 rounded-2xl ${className}`}
+      className={`card-surface neon-outline p-4 rounded-2xl ${dragOver ? 'ring-1 ' + theme.ring : ''} ${className}`}
+      onDragOver={onDragOver}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={onDrop}
     >
       <div className="flex items-center justify-between mb-4">
         <div>
           <div className={`text-xs uppercase tracking-[0.18em] text-gray-400 ${accentText}`}>Deck {id}</div>
-          <div className="text-sm text-gray-300">Upload a track to start</div>
+          <div className="flex items-center gap-2 text-sm text-gray-300">
+            <span className={loadError ? 'text-red-400' : ''}>{loadError ?? (duration ? (bpm ? `${(bpm * (1 + tempo / 100)).toFixed(1)} BPM` : 'Tempo unknown') : 'Upload a track to start')}</span>
+            {trackKey && (
+              <span className="px-1.5 py-0.5 rounded bg-white/10 text-xs" title={`${trackKey.key} (${Math.round(trackKey.confidence * 100)}% confidence)`}>
+                {trackKey.camelot} · {trackKey.short}
+              </span>
+            )}
+            {trackKey && otherKey && (
+              <span className={`text-[11px] ${isHarmonicMatch(trackKey.camelot, otherKey.camelot) ? 'text-green-400' : 'text-orange-400'}`}>
+                {isHarmonicMatch(trackKey.camelot, otherKey.camelot) ? 'Harmonic' : 'Key clash'}
+              </span>
+            )}
+          </div>
         </div>
         <div className="flex items-center gap-2">
+          <div className="flex text-[11px]" title="Crossfader assignment">
+            {XFADER_SIDES.map((s) => (
+              <button
+                key={s.side}
+                onClick={() => audioEngine.setDeckCrossfaderAssign(id, s.side)}
+                className={`px-1.5 py-1 border first:rounded-l-md last:rounded-r-md ${xfader === s.side ? accentBorder + ' text-white bg-white/10' : 'border-white/10 text-gray-400'}`}
+              >
+                {s.label}
+              </button>
+            ))}
+          </div>
           <button onClick={onLoadClick} className={`px-3 py-1.5 rounded-lg bg-gradient-to-r ${accentGradient} text-white text-sm shadow-lg`}>Load</button>
           <input ref={inputRef} className="hidden" type="file" accept="audio/*" onChange={onFile} />
         </div>
       </div>
 
       <div className="mb-4">
+        <div className="mb-2">
+          <WaveformDetail
+            bands={bands}
+            duration={duration}
+            currentTime={currentTime}
+            bpm={bpm}
+            downbeat={downbeat}
+            loop={loop}
+            cues={hotCues}
+            onSeek={handleSeek}
+            height={96}
+          />
+        </div>
         <Waveform
           peaks={peaks}
+          bands={bands}
           duration={duration}
           currentTime={currentTime}
           onSeek={handleSeek}
-          loop={loopOn && duration ? { start: 0, end: loopLengths[loopIndex] } : null}
-          height={140}
+          loop={loop}
+          cues={hotCues}
+          height={72}
           playing={isPlaying}
         />
+        {duration && analysisProgress < 1 ? (
+          <div className="mt-1 flex items-center gap-2 text-[11px] text-gray-400">
+            <span>Analyzing…</span>
+            <div className="flex-1 h-1 bg-white/10 rounded-full overflow-hidden">
+              <div className={`h-full bg-gradient-to-r ${accentGradient} transition-all`} style={{ width: `${analysisProgress * 100}%` }} />
+            </div>
+            <span>{Math.round(analysisProgress * 100)}%</span>
+          </div>
+        ) : null}
+      </div>
+
+      <div className="mb-4">
+        <HotCuePads
+          cues={hotCues}
+          tone={id}
+          disabled={!duration}
+          onSet={(i) => audioEngine.setHotCue(id, i)}
+          onJump={(i) => audioEngine.jumpToHotCue(id, i)}
+          onDelete={(i) => audioEngine.deleteHotCue(id, i)}
+        />
+      </div>
+
+      <div className="mb-4">
+        <QueueList
+          queue={queue}
+          tone={id}
+          onLoadNext={() => audioEngine.loadNextTrack(id)}
+          onRemove={(item) => audioEngine.removeQueuedTrack(id, item)}
+          onMove={(item, index) => audioEngine.moveQueuedTrack(id, item, index)}
+          onClear={() => audioEngine.clearDeckQueue(id)}
+          onQueueTrack={(trackId) => attempt(() => audioEngine.queueDeckTrack(id, trackId), 'Could not queue the track')}
+          onQueueFile={(file) => audioEngine.queueDeckFile(id, file)}
+        />
       </div>
 
       <div className="grid grid-cols-[80px,1fr,96px] gap-4 items-center">
@@ -173,17 +438,24 @@ const Deck = forwardRef<DeckHandle, DeckProps>(({ id, className = '' }, ref) =>
           >
             {isPlaying ? 'Pause' : 'Play'}
           </motion.button>
-          <div className="flex items-center gap-2 text-xs text-gray-400">
-            <span>Loop</span>
-            <button onClick={toggleLoopHold} className={`px-2 py-1 rounded-md border ${loopOn ? accentBorder + ' text-white bg-white/10' : 'border-white/10 text-gray-300'}`}>
-              {loopOn ? `${loopLengths[loopIndex]}s` : 'Off'}
-            </button>
-            <button onClick={cycleLoopLength} className="px-2 py-1 rounded-md border border-white/10 text-gray-300">Cycle</button>
-          </div>
+          <button
+            onClick={toggleSync}
+            disabled={!bpm}
+            className={`w-full px-3 py-1.5 rounded-lg text-xs font-semibold border disabled:opacity-40 ${synced ? accentBorder + ' text-white bg-white/10' : 'border-white/10 text-gray-300'}`}
+          >
+            Sync
+          </button>
+          <button
+            onClick={() => audioEngine.setDeckPfl(id, !pfl)}
+            title="Pre-fader listen on headphones"
+            className={`w-full px-3 py-1.5 rounded-lg text-xs font-semibold border ${pfl ? accentBorder + ' text-white bg-white/10' : 'border-white/10 text-gray-300'}`}
+          >
+            Cue
+          </button>
         </div>
 
         <div className="flex flex-col gap-3">
-          <div className="grid grid-cols-4 gap-4">
+          <div className="grid grid-cols-5 gap-4">
             <div className="flex flex-col items-center gap-1">
               <span className="text-xs text-gray-400">Vol</span>
               <div className="h-28 w-10 flex items-end">
@@ -195,7 +467,7 @@ const Deck = forwardRef<DeckHandle, DeckProps>(({ id, className = '' }, ref) =>
                   value={volume}
                   onChange={(e) => setVolume(parseFloat(e.target.value))}
                   className="w-full h-28 appearance-none bg-transparent rotate-[-90deg] origin-bottom"
-                  style={{ accentColor: id === 'A' ? '#b45bff' : '#4fd1ff' }}
+                  style={{ accentColor: theme.hex }}
                 />
               </div>
               <span className="text-[11px] text-gray-400">{Math.round(volume * 100)}%</span>
@@ -215,36 +487,134 @@ const Deck = forwardRef<DeckHandle, DeckProps>(({ id, className = '' }, ref) =>
               <Knob tone={id} value={high} onChange={(v: number) => setHigh(v)} />
               <span className="text-[11px] text-gray-500">{((high - 0.5) * 24).toFixed(1)} dB</span>
             </div>
+            <div className="flex flex-col items-center gap-1" onDoubleClick={() => setFilter(0.5)} title="Double-click to reset">
+              <span className="text-xs text-gray-400">Filter</span>
+              <Knob tone={id} value={filter} onChange={(v: number) => setFilter(v)} label="Filter knob" format={formatFilter} />
+              <span className="text-[11px] text-gray-500">{formatFilter(filter)}</span>
+            </div>
           </div>
 
-          <div className="flex items-center gap-3 text-xs text-gray-300">
+          <div className="flex items-center gap-2 text-xs text-gray-300">
+            <div className="text-xs text-gray-400 w-10">Trim</div>
+            <input
+              type="range"
+              min={-TRIM_RANGE_DB}
+              max={TRIM_RANGE_DB}
+              step={0.1}
+              value={trim.trim}
+              onChange={(e) => audioEngine.setDeckTrim(id, parseFloat(e.target.value))}
+              onDoubleClick={() => audioEngine.setDeckTrim(id, 0)}
+              className="flex-1"
+              style={{ accentColor: theme.hex }}
+            />
+            <div className="w-14 text-right text-[11px] text-gray-400" title="Gain applied by the trim stage, including auto-gain">
+              {trim.gain >= 0 ? '+' : ''}
+              {trim.gain.toFixed(1)} dB
+            </div>
+            <span className="w-16 text-right text-[11px] text-gray-500" title="Integrated loudness of the track">
+              {loudness !== null ? `${loudness.toFixed(1)} LUFS` : '-- LUFS'}
+            </span>
             <button
-              onClick={() => setFxOn((s) => !s)}
-              className={`px-3 py-1.5 rounded-md border ${fxOn ? accentBorder + ' text-white bg-white/10' : 'border-white/10 text-gray-200'}`}
+              onClick={() => audioEngine.setDeckAutoGain(id, !trim.autoGain)}
+              title="Match the track to the target loudness"
+              className={`px-2 py-1 rounded-md border ${trim.autoGain ? accentBorder + ' text-white bg-white/10' : 'border-white/10 text-gray-300'}`}
             >
-              FX {fxOn ? 'On' : 'Off'}
+              Auto
             </button>
-            <div className="flex items-center gap-2 w-48">
-              <div className="text-xs text-gray-400 w-10">Wet</div>
-              <input
-                type="range"
-                min={0}
-                max={1}
-                step={0.01}
-                value={fxWet}
-                onChange={(e) => setFxWet(parseFloat(e.target.value))}
-                className="w-full"
-                style={{ accentColor: id === 'A' ? '#b45bff' : '#4fd1ff' }}
-              />
-              <div className="w-10 text-right text-[11px] text-gray-400">{Math.round(fxWet * 100)}%</div>
+          </div>
+
+          <div className="flex items-center gap-2 text-xs text-gray-300">
+            <div className="text-xs text-gray-400 w-10">Tempo</div>
+            <input
+              type="range"
+              min={-tempoRange}
+              max={tempoRange}
+              step={tempoRange / 400}
+              value={tempo}
+              onChange={(e) => handleTempo(parseFloat(e.target.value))}
+              onDoubleClick={() => handleTempo(0)}
+              className="flex-1"
+              style={{ accentColor: theme.hex }}
+            />
+            <div className="w-14 text-right text-[11px] text-gray-400">
+              {tempo >= 0 ? '+' : ''}
+              {tempo.toFixed(2)}%
             </div>
+            <button onClick={cycleTempoRange} className="px-2 py-1 rounded-md border border-white/10 text-gray-300">±{tempoRange}</button>
+            <button
+              onClick={toggleKeyLock}
+              className={`px-2 py-1 rounded-md border ${keyLock ? accentBorder + ' text-white bg-white/10' : 'border-white/10 text-gray-300'}`}
+            >
+              Key
+            </button>
           </div>
+
+          <div className="flex items-center gap-2 text-xs text-gray-300">
+            <div className="text-xs text-gray-400 w-10">Loop</div>
+            <button
+              onClick={toggleLoop}
+              className={`min-w-[3rem] px-2 py-1 rounded-md border ${loop && !rolling ? accentBorder + ' text-white bg-white/10' : 'border-white/10 text-gray-300'}`}
+            >
+              {formatBeats(loopBeats)}
+            </button>
+            <button onClick={() => audioEngine.halveDeckLoop(id)} className="px-2 py-1 rounded-md border border-white/10 text-gray-300">½</button>
+            <button onClick={() => audioEngine.doubleDeckLoop(id)} className="px-2 py-1 rounded-md border border-white/10 text-gray-300">×2</button>
+            <button onClick={() => audioEngine.moveDeckLoop(id, -loopBeats)} disabled={!loop} className="px-2 py-1 rounded-md border border-white/10 text-gray-300 disabled:opacity-40">◀</button>
+            <button onClick={() => audioEngine.moveDeckLoop(id, loopBeats)} disabled={!loop} className="px-2 py-1 rounded-md border border-white/10 text-gray-300 disabled:opacity-40">▶</button>
+            <button
+              onPointerDown={startRoll}
+              onPointerUp={stopRoll}
+              onPointerLeave={stopRoll}
+              className={`px-2 py-1 rounded-md border ${rolling ? accentBorder + ' text-white bg-white/10' : 'border-white/10 text-gray-300'}`}
+            >
+              Roll
+            </button>
+          </div>
+
+          <div className="flex items-center gap-2 text-xs text-gray-300">
+            <div className="text-xs text-gray-400 w-10">Vinyl</div>
+            <button onClick={() => audioEngine.brakeDeck(id)} disabled={!duration} className="px-2 py-1 rounded-md border border-white/10 text-gray-300 disabled:opacity-40" title="Slow down to a stop">
+              Brake
+            </button>
+            <button onClick={() => audioEngine.spinbackDeck(id)} disabled={!duration} className="px-2 py-1 rounded-md border border-white/10 text-gray-300 disabled:opacity-40" title="Spin backwards, then stop">
+              Spinback
+            </button>
+            <button onClick={cycleStopTime} className="px-2 py-1 rounded-md border border-white/10 text-gray-300" title="Brake and spinback time">
+              {stopTime}s
+            </button>
+            <button
+              onClick={() => audioEngine.setDeckReverse(id, !reverse)}
+              disabled={!duration}
+              className={`px-2 py-1 rounded-md border disabled:opacity-40 ${reverse ? accentBorder + ' text-white bg-white/10' : 'border-white/10 text-gray-300'}`}
+            >
+              Rev
+            </button>
+          </div>
+
+          <FxPanel
+            units={fx}
+            tone={id}
+            onAdd={(type) => audioEngine.addDeckEffect(id, type)}
+            onRemove={(unit) => audioEngine.removeDeckEffect(id, unit)}
+            onMove={(unit, index) => audioEngine.moveDeckEffect(id, unit, index)}
+            onToggle={(unit, on) => audioEngine.setDeckEffectEnabled(id, unit, on)}
+            onParam={(unit, param, value) => audioEngine.setDeckEffectParam(id, unit, param, value)}
+            onLoadImpulse={(unit, file) => audioEngine.loadDeckEffectImpulse(id, unit, file)}
+          />
         </div>
 
         <div className="flex flex-col items-center justify-between gap-2 h-full">
-          <div className="text-xs text-gray-400">Level</div>
-          <div className="w-12">
-            <Meter level={rms ? Math.min(1, rms * 5) : 0} />
+          <div className="text-xs text-gray-400">Pre · Post</div>
+          <div className="flex gap-1">
+            {(['pre', 'post'] as const).map((k) => (
+              <Meter
+                key={k}
+                level={meters ? meterPosition(meters[k].rms * Math.SQRT2) : 0}
+                hold={meters ? meterPosition(meters[k].peakHold) : 0}
+                clip={meters ? meters[k].clip : false}
+                onResetClip={() => audioEngine.resetClipIndicators()}
+              />
+            ))}
           </div>
           <div className="text-[11px] text-gray-500">{duration ? formatTime(duration - currentTime) : '-:--'}</div>
         </div>
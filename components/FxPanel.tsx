@@ -0,0 +1,149 @@
+"use client";
+
+import React from 'react';
+import { EFFECT_TYPES, MAX_FX_UNITS } from '../lib/audio/fx/FxRack';
+import type { FxUnitState } from '../lib/audio/fx/FxRack';
+import type { EffectType, ParamSpec } from '../lib/audio/fx/EffectUnit';
+import type { DeckId } from '../lib/audio/AudioEngine';
+import { DECK_THEME } from './deckTheme';
+
+type FxPanelProps = {
+  units: FxUnitState[];
+  tone?: DeckId;
+  onAdd?: (type: EffectType) => void;
+  onRemove?: (id: number) => void;
+  onMove?: (id: number, index: number) => void;
+  onToggle?: (id: number, on: boolean) => void;
+  onParam?: (id: number, param: string, value: number) => void;
+  onLoadImpulse?: (id: number, file: File) => void;
+};
+
+function formatBeats(b: number) {
+  if (b === 0) return '0';
+  if (b >= 1) return String(b);
+  const den = Math.round(1 / b);
+  if (Math.abs(1 / den - b) < 1e-6) return `1/${den}`;
+  return `${Math.round(b * 4)}/4`;
+}
+
+function formatParam(spec: ParamSpec, v: number) {
+  switch (spec.unit) {
+    case 'beats':
+      return formatBeats(v);
+    case '%':
+      return `${Math.round(v * 100)}%`;
+    case 'Hz':
+      return v >= 1000 ? `${(v / 1000).toFixed(1)}k` : `${Math.round(v)}`;
+    case 's':
+      return `${v.toFixed(1)}s`;
+    case 'bits':
+      return `${v} bit`;
+    case 'x':
+      return `${v.toFixed(1)}×`;
+    default:
+      return v.toFixed(2);
+  }
+}
+
+// controls for each rack unit are generated from the unit's parameter schema
+export default function FxPanel({ units, tone = 'A', onAdd, onRemove, onMove, onToggle, onParam, onLoadImpulse }: FxPanelProps) {
+  const accentBorder = DECK_THEME[tone].border;
+  const accentColor = DECK_THEME[tone].hex;
+
+  return (
+    <div className="flex flex-col gap-2 text-xs text-gray-300">
+      <div className="flex items-center gap-2">
+        <div className="text-xs text-gray-400 w-10">FX</div>
+        <select
+          value=""
+          disabled={units.length >= MAX_FX_UNITS}
+          onChange={(e) => e.target.value && onAdd?.(e.target.value as EffectType)}
+          className="px-2 py-1 rounded-md border border-white/10 bg-transparent text-gray-300 disabled:opacity-40"
+        >
+          <option value="">{units.length >= MAX_FX_UNITS ? 'Rack full' : 'Add effect…'}</option>
+          {EFFECT_TYPES.map((t) => (
+            <option key={t.type} value={t.type} className="bg-slate-900">
+              {t.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {units.map((u, i) => (
+        <div key={u.id} className={`p-2 rounded-lg border ${u.enabled ? accentBorder : 'border-white/10'}`}>
+          <div className="flex items-center gap-1.5 mb-1.5">
+            <button
+              onClick={() => onToggle?.(u.id, !u.enabled)}
+              className={`px-2 py-1 rounded-md border ${u.enabled ? accentBorder + ' text-white bg-white/10' : 'border-white/10 text-gray-300'}`}
+            >
+              {u.name}
+            </button>
+            <div className="flex-1" />
+            <button onClick={() => onMove?.(u.id, i - 1)} disabled={i === 0} className="px-2 py-1 rounded-md border border-white/10 text-gray-300 disabled:opacity-40" title="Move earlier in the chain">
+              ▲
+            </button>
+            <button onClick={() => onMove?.(u.id, i + 1)} disabled={i === units.length - 1} className="px-2 py-1 rounded-md border border-white/10 text-gray-300 disabled:opacity-40" title="Move later in the chain">
+              ▼
+            </button>
+            <button onClick={() => onRemove?.(u.id)} className="px-2 py-1 rounded-md border border-white/10 text-gray-300" title="Remove">
+              ×
+            </button>
+          </div>
+          <div className="flex flex-col gap-1">
+            {u.params.map((p) => (
+              <div key={p.id} className="flex items-center gap-2">
+                <div className="w-16 text-[11px] text-gray-400">{p.label}</div>
+                {p.options ? (
+                  <div className="flex gap-1">
+                    {p.options.map((o, k) => (
+                      <button
+                        key={o}
+                        onClick={() => onParam?.(u.id, p.id, o)}
+                        className={`px-1.5 py-0.5 rounded border ${u.values[p.id] === o ? accentBorder + ' text-white bg-white/10' : 'border-white/10 text-gray-400'}`}
+                      >
+                        {p.labels?.[k] ?? formatParam(p, o)}
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <>
+                    <input
+                      type="range"
+                      min={p.min}
+                      max={p.max}
+                      step={p.step}
+                      value={u.values[p.id]}
+                      onChange={(e) => onParam?.(u.id, p.id, parseFloat(e.target.value))}
+                      className="flex-1"
+                      style={{ accentColor }}
+                    />
+                    <div className="w-12 text-right text-[11px] text-gray-400">{formatParam(p, u.values[p.id])}</div>
+                  </>
+                )}
+              </div>
+            ))}
+            {u.impulse !== undefined && (
+              <div className="flex items-center gap-2">
+                <div className="w-16 text-[11px] text-gray-400">IR file</div>
+                <label className="px-2 py-0.5 rounded border border-white/10 text-gray-300 cursor-pointer">
+                  Load IR
+                  <input
+                    type="file"
+                    accept="audio/*"
+                    className="hidden"
+                    onChange={(e) => {
+                      const f = e.target.files?.[0];
+                      if (f) onLoadImpulse?.(u.id, f);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+                <span className="truncate text-[11px] text-gray-500">{u.impulse ?? 'none'}</span>
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
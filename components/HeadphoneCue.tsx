@@ -0,0 +1,137 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import audioEngine from '../lib/audio/engineInstance';
+
+type OutputDevice = { deviceId: string; label: string };
+
+export default function HeadphoneCue() {
+  const [mix, setMix] = useState(0.5);
+  const [volume, setVolume] = useState(0.8);
+  const [split, setSplit] = useState(false);
+  const [deviceId, setDeviceId] = useState('');
+  const [devices, setDevices] = useState<OutputDevice[]>([]);
+
+  useEffect(() => {
+    async function refresh() {
+      try {
+        const all = await navigator.mediaDevices.enumerateDevices();
+        setDevices(
+          all
+            .filter((d) => d.kind === 'audiooutput' && d.deviceId !== 'default')
+            .map((d, i) => ({ deviceId: d.deviceId, label: d.label || `Output ${i + 1}` }))
+        );
+      } catch (e) {
+        setDevices([]);
+      }
+    }
+    refresh();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener?.('devicechange', refresh);
+  }, []);
+
+  // a restored session changes the cue settings from outside; mirror the engine
+  useEffect(() => {
+    let raf = 0;
+    function tick() {
+      const cue = audioEngine.getCueState();
+      setMix(cue.mix);
+      setVolume(cue.volume);
+      setSplit(cue.split);
+      raf = requestAnimationFrame(tick);
+    }
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, []);
+
+  function onMix(v: number) {
+    setMix(v);
+    audioEngine.setCueMix(v);
+  }
+
+  function onVolume(v: number) {
+    setVolume(v);
+    audioEngine.setCueVolume(v);
+  }
+
+  function toggleSplit() {
+    audioEngine.setSplitCue(!split);
+    setSplit(!split);
+  }
+
+  async function onDevice(id: string) {
+    setDeviceId(id);
+    try {
+      await audioEngine.setHeadphoneDevice(id || null);
+    } catch (e) {
+      console.warn('Headphone output failed', e);
+      setDeviceId('');
+    }
+  }
+
+  return (
+    <motion.div
+      className="p-4 rounded-2xl card-surface neon-outline w-full"
+      initial={{ y: 6, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      transition={{ duration: 0.35, type: 'spring', stiffness: 140, damping: 16 }}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-sm text-gray-300">Headphones</div>
+        <button
+          onClick={toggleSplit}
+          className={`px-2 py-1 rounded-md border text-xs ${split ? 'border-purple-500/30 text-white bg-white/10' : 'border-white/10 text-gray-300'}`}
+        >
+          Split
+        </button>
+      </div>
+
+      <div className="space-y-2 text-xs text-gray-300">
+        <div className="flex items-center gap-2">
+          <div className="w-12 text-gray-400">Cue</div>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={mix}
+            onChange={(e) => onMix(parseFloat(e.target.value))}
+            className="flex-1"
+            style={{ accentColor: '#b45bff' }}
+            aria-label="Cue / master mix"
+          />
+          <div className="w-12 text-right text-gray-400">Master</div>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-12 text-gray-400">Level</div>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={volume}
+            onChange={(e) => onVolume(parseFloat(e.target.value))}
+            className="flex-1"
+            style={{ accentColor: '#4fd1ff' }}
+            aria-label="Cue volume"
+          />
+          <div className="w-12 text-right text-gray-400">{Math.round(volume * 100)}%</div>
+        </div>
+        {!split && (
+          <div className="flex items-center gap-2">
+            <div className="w-12 text-gray-400">Output</div>
+            <select value={deviceId} onChange={(e) => onDevice(e.target.value)} className="flex-1 bg-black/30 border border-white/10 rounded-md px-2 py-1">
+              <option value="">Off</option>
+              {devices.map((d) => (
+                <option key={d.deviceId} value={d.deviceId}>
+                  {d.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
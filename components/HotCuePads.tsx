@@ -0,0 +1,51 @@
+"use client";
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import type { HotCues } from '../lib/audio/CueStore';
+import type { DeckId } from '../lib/audio/AudioEngine';
+import { DECK_THEME } from './deckTheme';
+
+type HotCuePadsProps = {
+  cues: HotCues;
+  tone?: DeckId;
+  disabled?: boolean;
+  onSet?: (index: number) => void;
+  onJump?: (index: number) => void;
+  onDelete?: (index: number) => void;
+};
+
+// empty pad sets a cue at the playhead, a set pad jumps to it; shift-click or right-click clears
+export default function HotCuePads({ cues, tone = 'A', disabled = false, onSet, onJump, onDelete }: HotCuePadsProps) {
+  const accent = DECK_THEME[tone].glow;
+
+  function handleClick(e: React.MouseEvent, i: number) {
+    if (e.shiftKey) onDelete?.(i);
+    else if (cues[i] === null) onSet?.(i);
+    else onJump?.(i);
+  }
+
+  function handleContextMenu(e: React.MouseEvent, i: number) {
+    e.preventDefault();
+    onDelete?.(i);
+  }
+
+  return (
+    <div className="grid grid-cols-8 gap-1.5">
+      {cues.map((c, i) => (
+        <motion.button
+          key={i}
+          whileTap={{ scale: 0.92 }}
+          disabled={disabled}
+          onClick={(e) => handleClick(e, i)}
+          onContextMenu={(e) => handleContextMenu(e, i)}
+          title={c === null ? `Set cue ${i + 1}` : `Cue ${i + 1} — shift-click to clear`}
+          className="h-8 rounded-md border border-white/10 text-[11px] font-semibold text-gray-200 disabled:opacity-40"
+          style={{ background: c === null ? 'rgba(255,255,255,0.04)' : accent }}
+        >
+          {i + 1}
+        </motion.button>
+      ))}
+    </div>
+  );
+}
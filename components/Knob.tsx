@@ -2,18 +2,24 @@
 
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
+import { DECK_THEME } from './deckTheme';
+import type { DeckId } from '../lib/audio/AudioEngine';
 
 type KnobProps = {
   value?: number;
   onChange?: (v: number) => void;
-  tone?: 'A' | 'B';
+  tone?: DeckId;
+  label?: string;
+  format?: (v: number) => string;
 };
 
-export default function Knob({ value = 0.5, onChange, tone = 'A' }: KnobProps) {
+const formatDb = (v: number) => `${((v - 0.5) * 24).toFixed(0)} dB`;
+
+export default function Knob({ value = 0.5, onChange, tone = 'A', label = 'EQ knob', format = formatDb }: KnobProps) {
   const [isActive, setIsActive] = useState(false);
   const angle = value * 270 - 135; // -135deg to 135deg sweep
-  const accent = tone === 'A' ? '#b45bff' : '#4fd1ff';
-  const accentLight = tone === 'A' ? 'rgba(180,91,255,0.3)' : 'rgba(79,209,255,0.3)';
+  const accent = DECK_THEME[tone].hex;
+  const accentLight = DECK_THEME[tone].soft;
   const track = 'rgba(255,255,255,0.08)';
 
   return (
@@ -70,7 +76,7 @@ export default function Knob({ value = 0.5, onChange, tone = 'A' }: KnobProps) {
         onTouchStart={() => setIsActive(true)}
         onTouchEnd={() => setIsActive(false)}
         className="absolute inset-0 opacity-0 cursor-pointer"
-        aria-label="EQ knob"
+        aria-label={label}
       />
       
       {/* Value indicator text (only on hover/active) */}
@@ -81,7 +87,7 @@ export default function Knob({ value = 0.5, onChange, tone = 'A' }: KnobProps) {
         pointer-events-none
         style={{ color: accent }}
       >
-        {((value - 0.5) * 24).toFixed(0)} dB
+        {format(value)}
       </motion.div>
     </div>
   );
@@ -0,0 +1,233 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import audioEngine from '../lib/audio/engineInstance';
+import { deleteTrack, listTracks, TRACK_DRAG_TYPE } from '../lib/library/TrackStore';
+import type { TrackRecord } from '../lib/library/TrackStore';
+import { importTracks } from '../lib/library/TrackImport';
+import type { ImportProgress } from '../lib/library/TrackImport';
+import type { DeckId } from '../lib/audio/AudioEngine';
+import { DECK_THEME } from './deckTheme';
+
+type SortKey = 'addedAt' | 'title' | 'artist' | 'bpm' | 'key' | 'duration';
+
+const COLUMNS: Array<{ key: SortKey; label: string; className: string }> = [
+  { key: 'title', label: 'Title', className: 'flex-1 min-w-0' },
+  { key: 'artist', label: 'Artist', className: 'w-32 hidden sm:block' },
+  { key: 'bpm', label: 'BPM', className: 'w-12 text-right' },
+  { key: 'key', label: 'Key', className: 'w-10 text-right' },
+  { key: 'duration', label: 'Time', className: 'w-12 text-right' }
+];
+
+function formatTime(s: number) {
+  const m = Math.floor(s / 60);
+  const ss = Math.floor(s % 60)
+    .toString()
+    .padStart(2, '0');
+  return `${m}:${ss}`;
+}
+
+// Camelot codes sort by wheel position, then minor (A) before major (B)
+function camelotRank(code: string | null) {
+  if (!code) return Infinity;
+  return parseInt(code, 10) * 2 + (code.endsWith('B') ? 1 : 0);
+}
+
+function compare(a: TrackRecord, b: TrackRecord, key: SortKey) {
+  switch (key) {
+    case 'title':
+      return a.title.localeCompare(b.title);
+    case 'artist':
+      return (a.artist ?? '').localeCompare(b.artist ?? '');
+    case 'bpm':
+      return (a.bpm ?? Infinity) - (b.bpm ?? Infinity);
+    case 'key':
+      return camelotRank(a.key) - camelotRank(b.key);
+    case 'duration':
+      return a.duration - b.duration;
+    case 'addedAt':
+      return a.addedAt - b.addedAt;
+  }
+}
+
+type LibraryProps = {
+  decks?: DeckId[];
+};
+
+// imported tracks live in IndexedDB with their analysis, so loading them skips re-analysis
+export default function Library({ decks = ['A', 'B'] }: LibraryProps) {
+  const [tracks, setTracks] = useState<TrackRecord[]>([]);
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<{ key: SortKey; asc: boolean }>({ key: 'addedAt', asc: false });
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [dragOver, setDragOver] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const filesRef = useRef<HTMLInputElement | null>(null);
+  const folderRef = useRef<HTMLInputElement | null>(null);
+
+  async function refresh() {
+    try {
+      setTracks(await listTracks());
+    } catch (e) {
+      console.warn('Library unavailable', e);
+    }
+  }
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const list = q
+      ? tracks.filter((t) => [t.title, t.artist ?? '', t.fileName, t.key ?? '', t.bpm ? String(Math.round(t.bpm)) : ''].some((f) => f.toLowerCase().includes(q)))
+      : tracks.slice();
+    list.sort((a, b) => compare(a, b, sort.key) * (sort.asc ? 1 : -1));
+    return list;
+  }, [tracks, query, sort]);
+
+  async function handleImport(files: File[]) {
+    if (files.length === 0 || progress) return;
+    setProgress({ done: 0, total: files.length, current: null });
+    await importTracks(files, (data) => audioEngine.analyzeAudioData(data), setProgress);
+    setProgress(null);
+    refresh();
+  }
+
+  function onInput(e: React.ChangeEvent<HTMLInputElement>) {
+    handleImport(Array.from(e.target.files ?? []));
+    e.target.value = '';
+  }
+
+  function onDrop(e: React.DragEvent) {
+    e.preventDefault();
+    setDragOver(false);
+    handleImport(Array.from(e.dataTransfer.files));
+  }
+
+  // shift-click queues the track instead of loading it
+  async function handleLoad(deck: DeckId, id: string, queue: boolean) {
+    setError(null);
+    try {
+      if (queue) await audioEngine.queueDeckTrack(deck, id);
+      else await audioEngine.loadDeckFromLibrary(deck, id);
+    } catch (e) {
+      console.warn('Could not load track', e);
+      setError(`Could not ${queue ? 'queue' : 'load'} the track on deck ${deck}`);
+    }
+  }
+
+  async function handleDelete(id: string) {
+    try {
+      await deleteTrack(id);
+    } catch (e) {
+      console.warn('Could not delete track', e);
+    }
+    refresh();
+  }
+
+  function toggleSort(key: SortKey) {
+    setSort((s) => (s.key === key ? { key, asc: !s.asc } : { key, asc: true }));
+  }
+
+  return (
+    <motion.div
+      className={`p-4 rounded-2xl card-surface neon-outline w-full ${dragOver ? 'ring-1 ring-purple-400/50' : ''}`}
+      initial={{ y: 6, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      transition={{ duration: 0.35, type: 'spring', stiffness: 140, damping: 16 }}
+      onDragOver={(e) => {
+        if (e.dataTransfer.types.includes('Files')) {
+          e.preventDefault();
+          setDragOver(true);
+        }
+      }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={onDrop}
+    >
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+        <div className="text-sm text-gray-300 mr-2">Library</div>
+        <span className="text-gray-500">{tracks.length} tracks</span>
+        <div className="flex-1" />
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search title, artist, key, BPM"
+          className="px-2 py-1 rounded-md border border-white/10 bg-transparent text-gray-200 w-56"
+        />
+        <button onClick={() => filesRef.current?.click()} disabled={!!progress} className="px-2 py-1 rounded-md border border-white/10 text-gray-300 disabled:opacity-40">
+          Import files
+        </button>
+        <button onClick={() => folderRef.current?.click()} disabled={!!progress} className="px-2 py-1 rounded-md border border-white/10 text-gray-300 disabled:opacity-40">
+          Import folder
+        </button>
+        <input ref={filesRef} className="hidden" type="file" accept="audio/*" multiple onChange={onInput} />
+        <input ref={folderRef} className="hidden" type="file" multiple onChange={onInput} {...({ webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>)} />
+      </div>
+
+      {progress && (
+        <div className="mb-3 flex items-center gap-2 text-[11px] text-gray-400">
+          <span className="truncate max-w-[40%]">Importing {progress.current ?? '…'}</span>
+          <div className="flex-1 h-1 bg-white/10 rounded-full overflow-hidden">
+            <div className="h-full bg-gradient-to-r from-purple-500 to-cyan-400 transition-all" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }} />
+          </div>
+          <span>
+            {progress.done}/{progress.total}
+          </span>
+        </div>
+      )}
+
+      {error && <div className="mb-3 text-[11px] text-red-400">{error}</div>}
+
+      <div className="flex items-center gap-3 px-2 pb-1 text-[11px] uppercase tracking-wider text-gray-500 border-b border-white/5">
+        {COLUMNS.map((c) => (
+          <button key={c.key} onClick={() => toggleSort(c.key)} className={`${c.className} text-left ${sort.key === c.key ? 'text-gray-200' : ''}`}>
+            {c.label}
+            {sort.key === c.key ? (sort.asc ? ' ↑' : ' ↓') : ''}
+          </button>
+        ))}
+        <div className="w-36" />
+      </div>
+
+      <div className="max-h-72 overflow-y-auto">
+        {visible.length === 0 && (
+          <div className="py-6 text-center text-xs text-gray-500">{tracks.length ? 'No matches' : 'Import files or a folder, or drop audio files here'}</div>
+        )}
+        {visible.map((t) => (
+          <div
+            key={t.id}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.setData(TRACK_DRAG_TYPE, t.id);
+              e.dataTransfer.effectAllowed = 'copy';
+            }}
+            className="flex items-center gap-3 px-2 py-1.5 text-xs text-gray-300 rounded-md hover:bg-white/5 cursor-grab"
+            title={t.fileName}
+          >
+            <div className="flex-1 min-w-0 truncate text-gray-100">{t.title}</div>
+            <div className="w-32 hidden sm:block truncate text-gray-400">{t.artist ?? ''}</div>
+            <div className="w-12 text-right">{t.bpm ? t.bpm.toFixed(1) : '—'}</div>
+            <div className="w-10 text-right">{t.key ?? '—'}</div>
+            <div className="w-12 text-right text-gray-400">{formatTime(t.duration)}</div>
+            <div className="w-36 flex justify-end gap-1">
+              {decks.map((d) => (
+                <button
+                  key={d}
+                  onClick={(e) => handleLoad(d, t.id, e.shiftKey)}
+                  className={`px-2 py-0.5 rounded border ${DECK_THEME[d].border} ${DECK_THEME[d].text}`}
+                  title={`Load on deck ${d} (shift-click to queue)`}
+                >
+                  {d}
+                </button>
+              ))}
+              <button onClick={() => handleDelete(t.id)} className="px-2 py-0.5 rounded border border-white/10 text-gray-400" title="Remove from library">
+                ×
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
@@ -2,14 +2,34 @@
 
 import React from 'react';
 
-export default function Meter({ level = 0 }: { level?: number }) {
+type MeterProps = {
+  level?: number; // 0..1 bar height
+  hold?: number; // 0..1 peak-hold marker
+  clip?: boolean;
+  onResetClip?: () => void;
+};
+
+export default function Meter({ level = 0, hold, clip = false, onResetClip }: MeterProps) {
   const pct = Math.max(0, Math.min(1, level));
+  const holdPct = typeof hold === 'number' ? Math.max(0, Math.min(1, hold)) : null;
   return (
-    <div className="h-24 w-8 bg-black/20 rounded flex items-end p-1">
-      <div
-        className="w-full bg-gradient-to-t from-red-500 via-yellow-400 to-green-400 rounded"
-        style={{ height: `${pct * 100}%` }}
-      />
+    <div className="flex flex-col items-center gap-1">
+      {onResetClip !== undefined || clip ? (
+        <button
+          onClick={onResetClip}
+          title="Clip — click to reset"
+          className={`h-1.5 w-8 rounded-sm ${clip ? 'bg-red-500 shadow-[0_0_6px_rgba(239,68,68,0.8)]' : 'bg-white/10'}`}
+        />
+      ) : null}
+      <div className="relative h-24 w-8 bg-black/20 rounded flex items-end p-1">
+        <div
+          className="w-full bg-gradient-to-t from-red-500 via-yellow-400 to-green-400 rounded"
+          style={{ height: `${pct * 100}%` }}
+        />
+        {holdPct !== null && holdPct > 0 && (
+          <div className="absolute left-1 right-1 h-0.5 bg-white/80" style={{ bottom: `calc(4px + ${holdPct} * 88px)` }} />
+        )}
+      </div>
     </div>
   );
 }
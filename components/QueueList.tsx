@@ -0,0 +1,88 @@
+"use client";
+
+import React, { useState } from 'react';
+import type { QueueState } from '../lib/audio/DeckQueue';
+import type { DeckId } from '../lib/audio/AudioEngine';
+import { TRACK_DRAG_TYPE } from '../lib/library/TrackStore';
+import { isAudioFile } from '../lib/library/TrackImport';
+import { DECK_THEME } from './deckTheme';
+
+type QueueListProps = {
+  queue: QueueState;
+  tone?: DeckId;
+  onLoadNext?: () => void;
+  onRemove?: (id: number) => void;
+  onMove?: (id: number, index: number) => void;
+  onClear?: () => void;
+  onQueueTrack?: (trackId: string) => void;
+  onQueueFile?: (file: File) => void;
+};
+
+const STATUS_LABEL = { queued: '', decoding: 'decoding…', ready: 'ready', error: 'failed' } as const;
+
+// library rows and audio files dropped here are queued instead of loaded
+export default function QueueList({ queue, tone = 'A', onLoadNext, onRemove, onMove, onClear, onQueueTrack, onQueueFile }: QueueListProps) {
+  const [dragOver, setDragOver] = useState(false);
+  const accentBorder = DECK_THEME[tone].border;
+
+  function onDrop(e: React.DragEvent) {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragOver(false);
+    const trackId = e.dataTransfer.getData(TRACK_DRAG_TYPE);
+    if (trackId) onQueueTrack?.(trackId);
+    else Array.from(e.dataTransfer.files).filter(isAudioFile).forEach((f) => onQueueFile?.(f));
+  }
+
+  return (
+    <div
+      className={`flex flex-col gap-1 text-xs text-gray-300 rounded-lg ${dragOver ? 'ring-1 ring-white/20' : ''}`}
+      onDragOver={(e) => {
+        if (e.dataTransfer.types.includes(TRACK_DRAG_TYPE) || e.dataTransfer.types.includes('Files')) {
+          e.preventDefault();
+          e.stopPropagation();
+          setDragOver(true);
+        }
+      }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={onDrop}
+    >
+      <div className="flex items-center gap-2">
+        <div className="text-xs text-gray-400 w-10">Queue</div>
+        <button
+          onClick={onLoadNext}
+          disabled={queue.items.length === 0}
+          className={`px-2 py-1 rounded-md border disabled:opacity-40 ${queue.armed ? accentBorder + ' text-white bg-white/10' : 'border-white/10 text-gray-300'}`}
+          title="Load the next track once the deck is stopped"
+        >
+          {queue.armed ? 'Next armed' : 'Load next'}
+        </button>
+        <span className="text-[11px] text-gray-500">{queue.items.length ? `${queue.items.length} queued` : 'Drop tracks here'}</span>
+        <div className="flex-1" />
+        {queue.items.length > 0 && (
+          <button onClick={onClear} className="px-2 py-1 rounded-md border border-white/10 text-gray-300">
+            Clear
+          </button>
+        )}
+      </div>
+      {queue.items.map((item, i) => (
+        <div key={item.id} className="flex items-center gap-1.5 pl-12">
+          <span className="w-4 text-[11px] text-gray-500">{i + 1}</span>
+          <span className="flex-1 min-w-0 truncate text-gray-200" title={item.artist ? `${item.artist} - ${item.title}` : item.title}>
+            {item.title}
+          </span>
+          <span className={`text-[10px] ${item.status === 'error' ? 'text-red-400' : 'text-gray-500'}`}>{STATUS_LABEL[item.status]}</span>
+          <button onClick={() => onMove?.(item.id, i - 1)} disabled={i === 0} className="px-1.5 py-0.5 rounded border border-white/10 text-gray-400 disabled:opacity-40">
+            ▲
+          </button>
+          <button onClick={() => onMove?.(item.id, i + 1)} disabled={i === queue.items.length - 1} className="px-1.5 py-0.5 rounded border border-white/10 text-gray-400 disabled:opacity-40">
+            ▼
+          </button>
+          <button onClick={() => onRemove?.(item.id)} className="px-1.5 py-0.5 rounded border border-white/10 text-gray-400" title="Remove">
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
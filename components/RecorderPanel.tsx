@@ -0,0 +1,133 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import audioEngine from '../lib/audio/engineInstance';
+import type { MixRecording, RecorderState } from '../lib/audio/MixRecorder';
+import type { WavBitDepth } from '../lib/audio/WavEncoder';
+
+function formatElapsed(s: number) {
+  const m = Math.floor(s / 60);
+  const ss = Math.floor(s % 60)
+    .toString()
+    .padStart(2, '0');
+  const ds = Math.floor((s * 10) % 10);
+  return `${m}:${ss}.${ds}`;
+}
+
+function download(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export default function RecorderPanel() {
+  const [state, setState] = useState<RecorderState>('idle');
+  const [elapsed, setElapsed] = useState(0);
+  const [level, setLevel] = useState(0);
+  const [compressed, setCompressed] = useState(false);
+  const [recording, setRecording] = useState<MixRecording | null>(null);
+  const rafRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    function tick() {
+      const s = audioEngine.getRecordingStatus();
+      setState(s.state);
+      setElapsed(s.elapsed);
+      setLevel(s.level);
+      rafRef.current = requestAnimationFrame(tick);
+    }
+    rafRef.current = requestAnimationFrame(tick);
+    return () => {
+      if (rafRef.current) cancelAnimationFrame(rafRef.current);
+    };
+  }, []);
+
+  async function handleRecord() {
+    setRecording(null);
+    try {
+      await audioEngine.startRecording({ compressed });
+    } catch (e) {
+      console.error('Recording failed to start', e);
+    }
+  }
+
+  async function handleStop() {
+    const rec = await audioEngine.stopRecording();
+    if (rec) setRecording(rec);
+  }
+
+  function stamp() {
+    return new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  }
+
+  function exportWav(bitDepth: WavBitDepth) {
+    if (recording) download(recording.toWav(bitDepth), `gesturedj-mix-${stamp()}-${bitDepth}bit.wav`);
+  }
+
+  function exportCompressed() {
+    if (!recording?.compressed) return;
+    const ext = recording.compressed.type.includes('ogg') ? 'ogg' : recording.compressed.type.includes('mp4') ? 'm4a' : 'webm';
+    download(recording.compressed, `gesturedj-mix-${stamp()}.${ext}`);
+  }
+
+  return (
+    <motion.div
+      className="p-4 rounded-2xl card-surface neon-outline w-full"
+      initial={{ y: 6, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      transition={{ duration: 0.35, type: 'spring', stiffness: 140, damping: 16 }}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 text-sm text-gray-300">
+          <span className={`h-2 w-2 rounded-full ${state === 'recording' ? 'bg-red-500 animate-pulse' : state === 'paused' ? 'bg-yellow-400' : 'bg-white/20'}`} />
+          Recorder
+        </div>
+        <div className="font-mono text-sm text-gray-200">{formatElapsed(elapsed)}</div>
+      </div>
+
+      <div className="h-1.5 w-full bg-white/10 rounded-full overflow-hidden mb-3">
+        <div className="h-full bg-gradient-to-r from-green-400 via-yellow-400 to-red-500" style={{ width: `${Math.min(1, level) * 100}%` }} />
+      </div>
+
+      <div className="flex items-center gap-2 text-xs">
+        {state === 'idle' ? (
+          <motion.button whileTap={{ scale: 0.95 }} onClick={handleRecord} className="px-3 py-1.5 rounded-md bg-red-600/80 text-white">
+            Rec
+          </motion.button>
+        ) : (
+          <>
+            <button
+              onClick={() => (state === 'paused' ? audioEngine.resumeRecording() : audioEngine.pauseRecording())}
+              className="px-3 py-1.5 rounded-md border border-white/10 text-gray-200"
+            >
+              {state === 'paused' ? 'Resume' : 'Pause'}
+            </button>
+            <button onClick={handleStop} className="px-3 py-1.5 rounded-md border border-white/10 text-gray-200">
+              Stop
+            </button>
+          </>
+        )}
+        <label className="ml-auto flex items-center gap-1.5 text-gray-400">
+          <input type="checkbox" checked={compressed} disabled={state !== 'idle'} onChange={(e) => setCompressed(e.target.checked)} />
+          Compressed copy
+        </label>
+      </div>
+
+      {recording && state === 'idle' && (
+        <div className="mt-3 flex items-center gap-2 text-xs text-gray-300">
+          <span className="text-gray-400">Export</span>
+          <button onClick={() => exportWav(16)} className="px-2 py-1 rounded-md border border-white/10">WAV 16</button>
+          <button onClick={() => exportWav(24)} className="px-2 py-1 rounded-md border border-white/10">WAV 24</button>
+          {recording.compressed && (
+            <button onClick={exportCompressed} className="px-2 py-1 rounded-md border border-white/10">Compressed</button>
+          )}
+          <span className="ml-auto text-gray-500">{formatElapsed(recording.duration)}</span>
+        </div>
+      )}
+    </motion.div>
+  );
+}
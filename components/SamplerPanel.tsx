@@ -0,0 +1,189 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import audioEngine from '../lib/audio/engineInstance';
+import { CHOKE_GROUPS, SAMPLER_PADS } from '../lib/audio/Sampler';
+import type { PadState } from '../lib/audio/Sampler';
+
+// two keyboard rows, one per row of pads
+const PAD_KEYS = ['q', 'w', 'e', 'r', 't', 'y', 'u', 'i', 'z', 'x', 'c', 'v', 'b', 'n', 'm', ','];
+
+const EMPTY_PAD: PadState = { name: null, loaded: false, playing: false, gain: 1, loop: false, choke: null };
+
+export default function SamplerPanel() {
+  const [pads, setPads] = useState<PadState[]>(() => new Array(SAMPLER_PADS).fill(EMPTY_PAD));
+  const [volume, setVolume] = useState(1);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [dragPad, setDragPad] = useState<number | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const loadTarget = useRef(0);
+  const rafRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    function tick() {
+      const s = audioEngine.getSamplerState();
+      if (s.pads) setPads(s.pads);
+      rafRef.current = requestAnimationFrame(tick);
+    }
+    rafRef.current = requestAnimationFrame(tick);
+    return () => {
+      if (rafRef.current) cancelAnimationFrame(rafRef.current);
+    };
+  }, []);
+
+  useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+      const tag = (document.activeElement && (document.activeElement as HTMLElement).tagName) || '';
+      if (tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT') return;
+      const i = PAD_KEYS.indexOf(e.key.toLowerCase());
+      if (i < 0) return;
+      audioEngine.triggerSamplerPad(i);
+      e.preventDefault();
+    }
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, []);
+
+  async function loadPad(i: number, file: File) {
+    try {
+      await audioEngine.loadSamplerPad(i, file);
+    } catch (e) {
+      console.warn('Could not load sample', e);
+    }
+  }
+
+  function pickFile(i: number) {
+    loadTarget.current = i;
+    fileRef.current?.click();
+  }
+
+  function onPadClick(e: React.MouseEvent, i: number) {
+    if (e.shiftKey) {
+      setSelected((s) => (s === i ? null : i));
+      return;
+    }
+    if (pads[i].loaded) audioEngine.triggerSamplerPad(i);
+    else pickFile(i);
+  }
+
+  function onVolume(v: number) {
+    setVolume(v);
+    audioEngine.setSamplerVolume(v);
+  }
+
+  const edit = selected !== null ? pads[selected] : null;
+
+  return (
+    <motion.div
+      className="p-4 rounded-2xl card-surface neon-outline w-full"
+      initial={{ y: 6, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      transition={{ duration: 0.35, type: 'spring', stiffness: 140, damping: 16 }}
+    >
+      <div className="flex items-center gap-3 mb-3 text-xs">
+        <div className="text-sm text-gray-300 mr-2">Sampler</div>
+        <span className="text-gray-500">Click or press Q–I / Z–, to fire · shift-click or right-click to edit</span>
+        <div className="flex-1" />
+        <div className="text-gray-400">Level</div>
+        <input type="range" min={0} max={1.5} step={0.01} value={volume} onChange={(e) => onVolume(parseFloat(e.target.value))} className="w-28" style={{ accentColor: '#ec4899' }} />
+        <div className="w-10 text-right text-gray-400">{Math.round(volume * 100)}%</div>
+      </div>
+
+      <div className="grid grid-cols-4 sm:grid-cols-8 gap-2">
+        {pads.map((p, i) => (
+          <button
+            key={i}
+            onClick={(e) => onPadClick(e, i)}
+            onContextMenu={(e) => {
+              e.preventDefault();
+              setSelected((s) => (s === i ? null : i));
+            }}
+            onDragOver={(e) => {
+              if (!e.dataTransfer.types.includes('Files')) return;
+              e.preventDefault();
+              setDragPad(i);
+            }}
+            onDragLeave={() => setDragPad(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setDragPad(null);
+              const f = e.dataTransfer.files[0];
+              if (f) loadPad(i, f);
+            }}
+            className={`relative h-16 rounded-lg border text-left px-2 py-1.5 transition-colors ${
+              p.playing ? 'border-pink-400/70 bg-pink-500/25 shadow-[0_0_14px_rgba(236,72,153,0.45)]' : p.loaded ? 'border-white/15 bg-white/5' : 'border-dashed border-white/10'
+            } ${selected === i ? 'ring-1 ring-pink-400/60' : ''} ${dragPad === i ? 'ring-1 ring-purple-400/60' : ''}`}
+          >
+            <div className="text-[10px] uppercase text-gray-500">{PAD_KEYS[i]}</div>
+            <div className={`text-[11px] truncate ${p.loaded ? 'text-gray-100' : 'text-gray-600'}`}>{p.name ?? 'Empty'}</div>
+            <div className="absolute top-1 right-1.5 flex gap-1 text-[9px] text-gray-400">
+              {p.loop && <span>⟳</span>}
+              {p.choke !== null && <span>G{p.choke}</span>}
+            </div>
+          </button>
+        ))}
+      </div>
+      <input
+        ref={fileRef}
+        className="hidden"
+        type="file"
+        accept="audio/*"
+        onChange={(e) => {
+          const f = e.target.files?.[0];
+          if (f) loadPad(loadTarget.current, f);
+          e.target.value = '';
+        }}
+      />
+
+      {edit && selected !== null && (
+        <div className="mt-3 flex flex-wrap items-center gap-3 text-xs text-gray-300">
+          <div className="text-gray-400">
+            Pad {selected + 1}
+            {edit.name ? ` · ${edit.name}` : ''}
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-gray-400">Gain</span>
+            <input
+              type="range"
+              min={0}
+              max={1.5}
+              step={0.01}
+              value={edit.gain}
+              onChange={(e) => audioEngine.setSamplerPad(selected, { gain: parseFloat(e.target.value) })}
+              className="w-24"
+              style={{ accentColor: '#ec4899' }}
+            />
+            <span className="w-10 text-right text-gray-400">{Math.round(edit.gain * 100)}%</span>
+          </div>
+          <button
+            onClick={() => audioEngine.setSamplerPad(selected, { loop: !edit.loop })}
+            className={`px-2 py-1 rounded-md border ${edit.loop ? 'border-pink-500/30 text-white bg-white/10' : 'border-white/10 text-gray-300'}`}
+          >
+            Loop
+          </button>
+          <div className="flex items-center gap-1">
+            <span className="text-gray-400 mr-1">Choke</span>
+            {[null, ...Array.from({ length: CHOKE_GROUPS }, (_, k) => k + 1)].map((g) => (
+              <button
+                key={g ?? 'none'}
+                onClick={() => audioEngine.setSamplerPad(selected, { choke: g })}
+                className={`px-1.5 py-0.5 rounded border ${edit.choke === g ? 'border-pink-500/30 text-white bg-white/10' : 'border-white/10 text-gray-400'}`}
+              >
+                {g ?? '—'}
+              </button>
+            ))}
+          </div>
+          <div className="flex-1" />
+          <button onClick={() => pickFile(selected)} className="px-2 py-1 rounded-md border border-white/10 text-gray-300">
+            Load…
+          </button>
+          <button onClick={() => audioEngine.clearSamplerPad(selected)} disabled={!edit.loaded} className="px-2 py-1 rounded-md border border-white/10 text-gray-300 disabled:opacity-40">
+            Clear
+          </button>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import audioEngine from '../lib/audio/engineInstance';
+import { captureSession, keepOfferedSession, loadOfferedSession, loadSavedSession, parseSession, saveSession, sessionTrackCount } from '../lib/audio/Session';
+import type { Session } from '../lib/audio/Session';
+
+type SessionPanelProps = {
+  // restores the session into the engine and the deck controls; resolves to the library ids that were missing
+  onRestore: (session: Session) => Promise<string[]>;
+};
+
+const AUTOSAVE_MS = 5000;
+
+function stamp() {
+  return new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+}
+
+function formatSavedAt(t: number) {
+  return new Date(t).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+}
+
+export default function SessionPanel({ onRestore }: SessionPanelProps) {
+  // last session found on start, until it is restored or dismissed
+  const [offer, setOffer] = useState<Session | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [savedAt, setSavedAt] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  // autosave holds off while a restore is half applied
+  const holdRef = useRef(false);
+
+  useEffect(() => {
+    // the last autosave, or the session still on offer from before it if the mixer was left empty;
+    // the offer is kept apart so autosave can go on in the meantime
+    const saved = loadSavedSession();
+    const offered = saved && sessionTrackCount(saved) > 0 ? saved : loadOfferedSession();
+    if (offered && sessionTrackCount(offered) > 0) {
+      keepOfferedSession(offered);
+      setOffer(offered);
+    }
+
+    function autosave() {
+      // nothing to save before the mixer has started
+      if (holdRef.current || !audioEngine.audioCtx) return;
+      saveSession(captureSession(audioEngine));
+      setSavedAt(Date.now());
+    }
+    const timer = window.setInterval(autosave, AUTOSAVE_MS);
+    window.addEventListener('pagehide', autosave);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('pagehide', autosave);
+    };
+  }, []);
+
+  async function restore(session: Session) {
+    holdRef.current = true;
+    setBusy(true);
+    setMessage(null);
+    try {
+      const missing = await onRestore(session);
+      setMessage(missing.length ? `${missing.length} track${missing.length > 1 ? 's' : ''} not in the library` : 'Session restored');
+    } catch (e) {
+      console.warn('Could not restore session', e);
+      setMessage('Could not restore the session');
+    }
+    keepOfferedSession(null);
+    setOffer(null);
+    setBusy(false);
+    holdRef.current = false;
+  }
+
+  function dismiss() {
+    keepOfferedSession(null);
+    setOffer(null);
+  }
+
+  function exportSession() {
+    const blob = new Blob([JSON.stringify(captureSession(audioEngine), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `gesturedj-session-${stamp()}.json`;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  async function onImport(e: React.ChangeEvent<HTMLInputElement>) {
+    const f = e.target.files?.[0];
+    e.target.value = '';
+    if (!f) return;
+    let session: Session;
+    try {
+      session = parseSession(await f.text());
+    } catch (err) {
+      console.warn('Could not read session file', err);
+      setMessage('Not a session file');
+      return;
+    }
+    await restore(session);
+  }
+
+  return (
+    <motion.div
+      className="p-4 rounded-2xl card-surface neon-outline w-full"
+      initial={{ y: 6, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      transition={{ duration: 0.35, type: 'spring', stiffness: 140, damping: 16 }}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-sm text-gray-300">Session</div>
+        <div className="flex gap-2 text-xs">
+          <button onClick={exportSession} className="px-2 py-1 rounded-md border border-white/10 text-gray-300" title="Download the mixer setup as JSON">
+            Export
+          </button>
+          <button onClick={() => inputRef.current?.click()} disabled={busy} className="px-2 py-1 rounded-md border border-white/10 text-gray-300 disabled:opacity-40">
+            Import
+          </button>
+          <input ref={inputRef} className="hidden" type="file" accept="application/json,.json" onChange={onImport} />
+        </div>
+      </div>
+
+      {offer && (
+        <div className="flex items-center gap-2 mb-2 text-xs text-gray-300">
+          <span className="flex-1 truncate">
+            Last session from {formatSavedAt(offer.savedAt)} · {sessionTrackCount(offer)} track{sessionTrackCount(offer) > 1 ? 's' : ''}
+          </span>
+          <button onClick={() => restore(offer)} disabled={busy} className="px-2 py-1 rounded-md border border-purple-500/30 text-white bg-white/10 disabled:opacity-40">
+            Restore
+          </button>
+          <button onClick={dismiss} disabled={busy} className="px-2 py-1 rounded-md border border-white/10 text-gray-300 disabled:opacity-40">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      <div className="text-[11px] text-gray-400">
+        {busy ? 'Restoring…' : message ?? (savedAt ? `Autosaved at ${new Date(savedAt).toLocaleTimeString()}` : 'Autosaves while you play')}
+      </div>
+    </motion.div>
+  );
+}
@@ -1,15 +1,19 @@
 "use client";
 
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
+import type { BandWaveform } from '../lib/audio/TrackAnalyzer';
+import { bandColor, bandLevelAt, bandNorm } from '../lib/utils/waveColors';
 
 type LoopRegion = { start: number; end: number } | null;
 
 type WaveformProps = {
   peaks: Float32Array | null;
+  bands?: BandWaveform | null;
   duration: number | null;
   currentTime?: number;
   onSeek?: (time: number) => void;
   loop?: LoopRegion;
+  cues?: Array<number | null>;
   height?: number;
   playing?: boolean;
 };
@@ -23,14 +27,15 @@ function formatTime(s: number | undefined) {
   return `${m}:${ss}`;
 }
 
-export default function Waveform({ peaks, duration = null, currentTime = 0, onSeek, loop = null, height = 96, playing = false }: WaveformProps) {
+export default function Waveform({ peaks, bands = null, duration = null, currentTime = 0, onSeek, loop = null, cues = [], height = 96, playing = false }: WaveformProps) {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const norm = useMemo(() => (bands ? bandNorm(bands) : 1), [bands]);
 
   useEffect(() => {
     if (!peaks || !canvasRef.current) return;
     draw(peaks, duration || 0);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [peaks, currentTime, loop, duration, playing]);
+  }, [peaks, bands, currentTime, loop, cues, duration, playing]);
 
   function draw(peaks: Float32Array, dur: number) {
     const canvas = canvasRef.current;
@@ -49,21 +54,32 @@ export default function Waveform({ peaks, duration = null, currentTime = 0, onSe
     ctx.fillStyle = 'rgba(255,255,255,0.03)';
     ctx.fillRect(0, 0, w, h);
 
-    const grad = ctx.createLinearGradient(0, 0, w, 0);
-    grad.addColorStop(0, '#b45bff');
-    grad.addColorStop(0.5, '#ff4fbf');
-    grad.addColorStop(1, '#45c9ff');
-    ctx.fillStyle = grad;
-    ctx.shadowColor = playing ? 'rgba(110,80,255,0.35)' : 'transparent';
-    ctx.shadowBlur = playing ? 16 : 0;
     const mid = h / 2;
-    const barWidth = Math.max(1, w / peaks.length);
-    for (let i = 0; i < peaks.length; i++) {
-      const x = (i / peaks.length) * w;
-      const p = peaks[i] * (h * 0.9);
-      ctx.fillRect(x, mid - p / 2, barWidth, p);
+    if (bands) {
+      // one column per pixel, colored by band balance
+      const perPx = bands.low.length / w;
+      for (let x = 0; x < w; x++) {
+        const lvl = bandLevelAt(bands, x * perPx, (x + 1) * perPx);
+        const p = Math.min(1, (lvl.low + lvl.mid + lvl.high) / norm) * (h * 0.9);
+        ctx.fillStyle = bandColor(lvl);
+        ctx.fillRect(x, mid - p / 2, 1, p);
+      }
+    } else {
+      const grad = ctx.createLinearGradient(0, 0, w, 0);
+      grad.addColorStop(0, '#b45bff');
+      grad.addColorStop(0.5, '#ff4fbf');
+      grad.addColorStop(1, '#45c9ff');
+      ctx.fillStyle = grad;
+      ctx.shadowColor = playing ? 'rgba(110,80,255,0.35)' : 'transparent';
+      ctx.shadowBlur = playing ? 16 : 0;
+      const barWidth = Math.max(1, w / peaks.length);
+      for (let i = 0; i < peaks.length; i++) {
+        const x = (i / peaks.length) * w;
+        const p = peaks[i] * (h * 0.9);
+        ctx.fillRect(x, mid - p / 2, barWidth, p);
+      }
+      ctx.shadowBlur = 0;
     }
-    ctx.shadowBlur = 0;
 
     if (loop && dur > 0) {
       const sx = (loop.start / dur) * w;
@@ -75,6 +91,19 @@ export default function Waveform({ peaks, duration = null, currentTime = 0, onSe
       ctx.strokeRect(sx, 1, Math.max(1, ex - sx), h - 2);
     }
 
+    if (dur > 0) {
+      ctx.font = '10px sans-serif';
+      cues.forEach((c, i) => {
+        if (c === null) return;
+        const cx = (c / dur) * w;
+        ctx.fillStyle = 'rgba(255,196,79,0.85)';
+        ctx.fillRect(cx - 0.5, 0, 1, h);
+        ctx.fillRect(cx - 0.5, 0, 12, 12);
+        ctx.fillStyle = '#0b0f14';
+        ctx.fillText(String(i + 1), cx + 2.5, 9.5);
+      });
+    }
+
     if (dur > 0) {
       const px = (currentTime % dur) / dur * w;
       ctx.fillStyle = '#9b5cff';
@@ -0,0 +1,118 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { BandWaveform } from '../lib/audio/TrackAnalyzer';
+import { beatAt, timeAtBeat } from '../lib/audio/Beatgrid';
+import { bandColor, bandLevelAt, bandNorm } from '../lib/utils/waveColors';
+
+type LoopRegion = { start: number; end: number } | null;
+
+type WaveformDetailProps = {
+  bands: BandWaveform | null;
+  duration: number | null;
+  currentTime?: number;
+  bpm?: number | null;
+  downbeat?: number | null;
+  loop?: LoopRegion;
+  cues?: Array<number | null>;
+  onSeek?: (time: number) => void;
+  height?: number;
+};
+
+// visible window in seconds, from closest to widest
+const ZOOM_SPANS = [2, 4, 8, 16, 32];
+
+export default function WaveformDetail({ bands, duration = null, currentTime = 0, bpm = null, downbeat = null, loop = null, cues = [], onSeek, height = 72 }: WaveformDetailProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [zoom, setZoom] = useState(2);
+  const span = ZOOM_SPANS[zoom];
+  const norm = useMemo(() => (bands ? bandNorm(bands) : 1), [bands]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const dpr = window.devicePixelRatio || 1;
+    const w = canvas.clientWidth;
+    const h = height;
+    canvas.width = Math.floor(w * dpr);
+    canvas.height = Math.floor(h * dpr);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.scale(dpr, dpr);
+    ctx.clearRect(0, 0, w, h);
+    ctx.fillStyle = 'rgba(255,255,255,0.03)';
+    ctx.fillRect(0, 0, w, h);
+    if (!bands || !duration) return;
+
+    // the playhead stays in the middle; the track scrolls past it
+    const start = currentTime - span / 2;
+    const xAt = (t: number) => ((t - start) / span) * w;
+
+    if (loop) {
+      const sx = xAt(loop.start);
+      const ex = xAt(loop.end);
+      ctx.fillStyle = 'rgba(255, 79, 191, 0.12)';
+      ctx.fillRect(sx, 0, Math.max(1, ex - sx), h);
+    }
+
+    if (bpm && downbeat !== null) {
+      const first = Math.ceil(beatAt(bpm, downbeat, Math.max(0, start)));
+      const last = Math.floor(beatAt(bpm, downbeat, Math.min(duration, start + span)));
+      for (let b = first; b <= last; b++) {
+        const bar = ((b % 4) + 4) % 4 === 0;
+        ctx.fillStyle = bar ? 'rgba(255,255,255,0.35)' : 'rgba(255,255,255,0.12)';
+        ctx.fillRect(Math.round(xAt(timeAtBeat(bpm, downbeat, b))), 0, 1, h);
+      }
+    }
+
+    const mid = h / 2;
+    const blocksPerPx = span / bands.blockDuration / w;
+    for (let x = 0; x < w; x++) {
+      const t = start + (x / w) * span;
+      if (t < 0 || t >= duration) continue;
+      const from = t / bands.blockDuration;
+      const lvl = bandLevelAt(bands, from, from + blocksPerPx);
+      const p = Math.min(1, (lvl.low + lvl.mid + lvl.high) / norm) * (h * 0.9);
+      ctx.fillStyle = bandColor(lvl);
+      ctx.fillRect(x, mid - p / 2, 1, p);
+    }
+
+    ctx.font = '10px sans-serif';
+    cues.forEach((c, i) => {
+      if (c === null || c < start || c > start + span) return;
+      const cx = xAt(c);
+      ctx.fillStyle = 'rgba(255,196,79,0.85)';
+      ctx.fillRect(cx - 0.5, 0, 1, h);
+      ctx.fillRect(cx - 0.5, 0, 12, 12);
+      ctx.fillStyle = '#0b0f14';
+      ctx.fillText(String(i + 1), cx + 2.5, 9.5);
+    });
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(w / 2 - 1, 0, 2, h);
+  }, [bands, norm, duration, currentTime, span, bpm, downbeat, loop, cues, height]);
+
+  function handleClick(e: React.MouseEvent) {
+    if (!onSeek || !canvasRef.current || !duration) return;
+    const rect = canvasRef.current.getBoundingClientRect();
+    const t = currentTime + ((e.clientX - rect.left) / rect.width - 0.5) * span;
+    onSeek(Math.max(0, Math.min(duration, t)));
+  }
+
+  function handleWheel(e: React.WheelEvent) {
+    setZoom((z) => Math.max(0, Math.min(ZOOM_SPANS.length - 1, z + (e.deltaY > 0 ? 1 : -1))));
+  }
+
+  return (
+    <div className="w-full">
+      <div className="relative rounded-lg overflow-hidden">
+        <canvas ref={canvasRef} onClick={handleClick} onWheel={handleWheel} className="w-full block cursor-pointer" style={{ height }} />
+        <div className="absolute top-1 right-1 flex items-center gap-1 text-[11px]">
+          <button onClick={() => setZoom((z) => Math.max(0, z - 1))} disabled={zoom === 0} className="px-1.5 rounded bg-black/40 border border-white/10 text-gray-300 disabled:opacity-40">+</button>
+          <span className="px-1 text-gray-400">{span}s</span>
+          <button onClick={() => setZoom((z) => Math.min(ZOOM_SPANS.length - 1, z + 1))} disabled={zoom === ZOOM_SPANS.length - 1} className="px-1.5 rounded bg-black/40 border border-white/10 text-gray-300 disabled:opacity-40">−</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import type { DeckId } from '../lib/audio/AudioEngine';
+
+// per-deck accent colors; Tailwind classes are spelled out so the JIT picks them up
+export const DECK_THEME: Record<DeckId, { hex: string; glow: string; soft: string; text: string; border: string; ring: string; gradient: string }> = {
+  A: {
+    hex: '#b45bff',
+    glow: 'rgba(180,91,255,0.35)',
+    soft: 'rgba(180,91,255,0.3)',
+    text: 'text-purple-200',
+    border: 'border-purple-500/30',
+    ring: 'ring-purple-400/60',
+    gradient: 'from-purple-500 via-pink-500 to-fuchsia-500'
+  },
+  B: {
+    hex: '#4fd1ff',
+    glow: 'rgba(79,209,255,0.35)',
+    soft: 'rgba(79,209,255,0.3)',
+    text: 'text-cyan-200',
+    border: 'border-cyan-400/30',
+    ring: 'ring-cyan-400/60',
+    gradient: 'from-cyan-400 via-blue-500 to-indigo-500'
+  },
+  C: {
+    hex: '#ffb347',
+    glow: 'rgba(255,179,71,0.35)',
+    soft: 'rgba(255,179,71,0.3)',
+    text: 'text-amber-200',
+    border: 'border-amber-400/30',
+    ring: 'ring-amber-400/60',
+    gradient: 'from-amber-400 via-orange-500 to-rose-500'
+  },
+  D: {
+    hex: '#4fffb0',
+    glow: 'rgba(79,255,176,0.35)',
+    soft: 'rgba(79,255,176,0.3)',
+    text: 'text-emerald-200',
+    border: 'border-emerald-400/30',
+    ring: 'ring-emerald-400/60',
+    gradient: 'from-emerald-400 via-teal-500 to-cyan-600'
+  }
+};
@@ -0,0 +1,38 @@
+// Analysis pipeline shared by the analysis worker and its main-thread fallback (see TrackAnalysis).
+
+import { computeBandWaveform, computeLoudness, computePeaks, detectKey, detectTempo } from './TrackAnalyzer';
+import type { BandWaveform, KeyInfo, PCMSource, TempoInfo } from './TrackAnalyzer';
+
+export type AnalysisMessage =
+  | { type: 'overview'; peaks: Float32Array; loudness: number | null }
+  | { type: 'bands'; bands: BandWaveform }
+  | { type: 'tempo'; tempo: TempoInfo | null }
+  | { type: 'key'; key: KeyInfo | null }
+  | { type: 'progress'; progress: number }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+export type AnalysisRequest = { channels: Float32Array[]; sampleRate: number };
+
+export const PEAK_COUNT = 2048;
+
+// the analysis steps shared by the worker and the main-thread fallback
+export async function* analysisSteps(src: PCMSource): AsyncGenerator<AnalysisMessage> {
+  yield { type: 'overview', peaks: computePeaks(src, PEAK_COUNT), loudness: computeLoudness(src) };
+  yield { type: 'progress', progress: 0.15 };
+  yield { type: 'bands', bands: computeBandWaveform(src) };
+  yield { type: 'progress', progress: 0.35 };
+  let tempo: TempoInfo | null = null;
+  try {
+    tempo = detectTempo(src);
+  } catch (e) {}
+  yield { type: 'tempo', tempo };
+  yield { type: 'progress', progress: 0.7 };
+  let key: KeyInfo | null = null;
+  try {
+    key = detectKey(src);
+  } catch (e) {}
+  yield { type: 'key', key };
+  yield { type: 'progress', progress: 1 };
+  yield { type: 'done' };
+}
@@ -3,61 +3,176 @@
  * This class intentionally keeps nodes reusable and creates the AudioContext lazily.
  */
 
-import { computePeaks, computeRMS } from './TrackAnalyzer';
+import type { BandWaveform, KeyInfo } from './TrackAnalyzer';
+import { absorbAnalysis, analyzeTrack, collectAnalysis, emptyAnalysis } from './TrackAnalysis';
+import type { AnalysisJob, AnalysisResult } from './TrackAnalysis';
+import { getTrackAnalysis, getTrackFile, updateTrackAnalysis } from '../library/TrackStore';
+import type { AnalysisMessage } from './AnalysisSteps';
+import FxRack from './fx/FxRack';
+import ImpulseLibrary from './fx/ImpulseLibrary';
+import type { UserImpulse } from './fx/ImpulseLibrary';
+import type { FxUnitState } from './fx/FxRack';
+import type { EffectType } from './fx/EffectUnit';
+import { beatAt, beatLength, beatPhase, timeAtBeat, wrapPhase } from './Beatgrid';
+import { HOT_CUE_COUNT, emptyCues, loadCues, saveCues } from './CueStore';
+import type { HotCues } from './CueStore';
+import { hashArrayBuffer } from '../utils/hash';
+import { loadWorklet, supportsWorklets } from './worklets/loadWorklet';
+import { PITCH_SHIFTER, PITCH_SHIFTER_SOURCE } from './worklets/pitchShifter';
+import { RECORDER, RECORDER_SOURCE } from './worklets/recorder';
+import { SCRATCH, SCRATCH_SOURCE } from './worklets/scratch';
+import MixRecorder from './MixRecorder';
+import CueBus from './CueBus';
+import LevelMeter from './LevelMeter';
+import Sampler from './Sampler';
+import Automix from './Automix';
+import DeckQueue from './DeckQueue';
+import type { AutomixStyle } from './Automix';
+import { CUT_IN_MAX, CUT_IN_MIN, DEFAULT_CUT_IN, crossfadeGains } from './CrossfaderCurves';
+import type { CrossfaderCurve } from './CrossfaderCurves';
+import type { PadSettings } from './Sampler';
 
 export type EQSettings = { low: number; mid: number; high: number };
 
+export type DeckId = 'A' | 'B' | 'C' | 'D';
+export const DECK_IDS: DeckId[] = ['A', 'B', 'C', 'D'];
+export type DeckCount = 2 | 4;
+
+// which crossfader side a deck's channel follows; 'thru' bypasses the crossfader
+export type CrossfaderSide = 'left' | 'thru' | 'right';
+
+// tempo fader range in percent
+export type TempoRange = 8 | 16 | 50;
+export const TEMPO_RANGES: TempoRange[] = [8, 16, 50];
+
+// loop lengths in beats
+export const LOOP_BEATS = [0.125, 0.25, 0.5, 1, 2, 4, 8, 16, 32];
+
+// used for loop lengths when no tempo was detected
+const FALLBACK_BPM = 120;
+
+export type LoopInfo = { start: number; end: number; beats: number };
+
+// a decoded track with its content hash and any analysis the library already has for it
+export type PreparedTrack = { file: Blob; buffer: AudioBuffer; hash: string; cached: AnalysisResult | null };
+
+// one-knob filter sweep limits (Hz) and resonance (dB) at full travel
+const FILTER_MIN_HZ = 20;
+const FILTER_MAX_HZ = 20000;
+const FILTER_LP_MIN_HZ = 80;
+const FILTER_HP_MAX_HZ = 10000;
+const FILTER_RESONANCE = 6;
+const FILTER_DEADZONE = 0.02;
+
+// scratching: platter speed limit (× normal), how long without jog input counts as letting go,
+// and the lead time used to hand playback between the buffer source and the scratch player
+const SCRATCH_MAX_RATE = 8;
+const SCRATCH_RELEASE_MS = 120;
+const SCRATCH_HANDOFF = 0.02;
+
+// brake and spinback: selectable stop times in seconds, and how fast a spinback starts spinning backwards
+export const STOP_TIMES = [0.5, 1, 2, 4];
+const SPINBACK_RATE = 3;
+
+// trim range (dB) of the gain stage ahead of the EQ, and the most auto-gain will add or take away
+export const TRIM_RANGE_DB = 12;
+const AUTO_GAIN_MAX_DB = 12;
+
+// auto-gain target loudness choices (LUFS)
+export const LOUDNESS_TARGETS = [-18, -14, -11, -8];
+export const DEFAULT_TARGET_LOUDNESS = -14;
+
+// master brickwall limiter (see getOrCreateContext)
+const LIMITER_THRESHOLD_DB = -1;
+const LIMITER_RATIO = 20;
+
+type ScratchState = { resume: boolean; reverse: boolean; released: boolean; pos: number; rate: number; time: number };
+type ScratchMessage = { type: 'position' | 'released'; position: number; rate: number; time: number };
+
 const clamp = (v: number, a: number, b: number) => Math.max(a, Math.min(b, v));
 
-type FXSettings = {
-  delayTime: number; // seconds
-  delayFeedback: number; // 0..0.6
-  lowpassCutoff: number; // Hz
-  reverbWet: number; // 0..1
-  wet: number; // general wet/dry mix 0..1
-};
 
 class Deck {
-  id: 'A' | 'B';
+  id: DeckId;
   engine: AudioEngine;
   buffer: AudioBuffer | null = null;
   // analysis
   public peaks: Float32Array | null = null;
-  public rms: number | null = null;
+  public loudness: number | null = null; // integrated LUFS
   public duration: number | null = null;
+  public bpm: number | null = null;
+  public downbeat: number | null = null;
+  public beatgrid: Float32Array | null = null;
+  public key: KeyInfo | null = null;
+  public bands: BandWaveform | null = null;
+  public analysisProgress = 1; // 0..1 while a track is being analyzed
+  private analysis: AnalysisJob | null = null;
+  // content hash of the loaded file, used to persist per-track data
+  public trackHash: string | null = null;
+  public hotCues: HotCues = emptyCues();
 
   // nodes
-  private gain: GainNode | null = null;
-  private dryGain: GainNode | null = null;
-  private wetGain: GainNode | null = null;
+  private input: GainNode | null = null;
+  private trim: GainNode | null = null;
+  private keyLockNode: AudioWorkletNode | null = null;
+  private channel: GainNode | null = null; // pre-fader channel signal (after EQ, filter and FX)
+  private pfl: GainNode | null = null;
+  private gain: GainNode | null = null; // channel fader (and restart micro-fades)
+  private xfade: GainNode | null = null; // crossfader gain
+  private preMeter: LevelMeter | null = null;
+  private postMeter: LevelMeter | null = null;
   private lowEQ: BiquadFilterNode | null = null;
   private midEQ: BiquadFilterNode | null = null;
   private highEQ: BiquadFilterNode | null = null;
+  // one-knob filter: low-pass left of center, high-pass right of center
+  private filterLP: BiquadFilterNode | null = null;
+  private filterHP: BiquadFilterNode | null = null;
 
-  // FX
-  private delay: DelayNode | null = null;
-  private delayFeedbackGain: GainNode | null = null;
-  private fxLowpass: BiquadFilterNode | null = null;
-  private convolver: ConvolverNode | null = null;
+  private fxRack: FxRack | null = null;
 
   // playback
   private source: AudioBufferSourceNode | null = null;
   private isPlaying = false;
   private position = 0; // seconds (when not playing)
-  private startTime = 0; // audioCtx.currentTime when started
+  private anchorTime = 0; // audioCtx.currentTime at the last rate/offset change
+  private anchorPos = 0; // track position at anchorTime
+  private anchorRate = 1; // playback rate since anchorTime
   private restartTimer: number | null = null;
 
+  // tempo
+  private tempoPct = 0; // percent offset from the original tempo
+  private tempoRange: TempoRange = 8;
+  private keyLock = false;
+
+  // sync: deck whose tempo (and phase on start) this deck follows
+  syncLeader: Deck | null = null;
+
   // looping
   private loopEnabled = false;
   private loopStart = 0;
   private loopEnd = 0;
+  private loopBeats = 4;
+  // scratch player (AudioWorklet) and the state of a scratch in progress; `resume` is whether
+  // the deck goes back to playing once the platter is let go
+  private scratchNode: AudioWorkletNode | null = null;
+  private scratchBuffer: AudioBuffer | null = null;
+  private scratch: ScratchState | null = null;
+  private scratchTimer: number | null = null;
+  private lastJogAt = 0;
+  private stopTime = 1; // brake / spinback duration in seconds
+
+  // loop roll: where playback would be without the roll, and the loop to restore afterwards
+  private roll: { anchorPos: number; anchorTime: number; rate: number; prev: { enabled: boolean; start: number; end: number; beats: number } } | null = null;
 
   // settings
   private volumeVal = 1;
+  private pflOn = false;
   private eq: EQSettings = { low: 0, mid: 0, high: 0 };
-  private fx: FXSettings = { delayTime: 0.25, delayFeedback: 0.2, lowpassCutoff: 8000, reverbWet: 0, wet: 0.2 };
+  private filterAmount = 0; // -1 (LPF) .. 0 (off) .. 1 (HPF)
+  private trimDb = 0;
+  private autoGain = false;
 
-  constructor(engine: AudioEngine, id: 'A' | 'B') {
+  constructor(engine: AudioEngine, id: DeckId) {
     this.engine = engine;
     this.id = id;
     this.initNodes();
@@ -71,9 +186,12 @@ class Deck {
   private initNodes() {
     const ctx = this.engine.getOrCreateContext();
 
+    this.input = ctx.createGain();
+    this.trim = ctx.createGain();
+    this.channel = ctx.createGain();
+    this.pfl = ctx.createGain();
     this.gain = ctx.createGain();
-    this.dryGain = ctx.createGain();
-    this.wetGain = ctx.createGain();
+    this.xfade = ctx.createGain();
 
     // EQ nodes
     this.lowEQ = ctx.createBiquadFilter();
@@ -83,58 +201,123 @@ class Deck {
     this.highEQ = ctx.createBiquadFilter();
     this.highEQ.type = 'highshelf';
 
-    // FX nodes
-    this.delay = ctx.createDelay(5.0);
-    this.delay.delayTime.value = this.fx.delayTime;
-    this.delayFeedbackGain = ctx.createGain();
-    this.delayFeedbackGain.gain.value = clamp(this.fx.delayFeedback, 0, 0.6);
-    this.fxLowpass = ctx.createBiquadFilter();
-    this.fxLowpass.type = 'lowpass';
-    this.fxLowpass.frequency.value = this.fx.lowpassCutoff;
-
-    // Convolver (reverb) generated impulse
-    this.convolver = ctx.createConvolver();
-    this.convolver.buffer = this.engine.createReverbImpulse(0.5);
+    // filter nodes, open at rest
+    this.filterLP = ctx.createBiquadFilter();
+    this.filterLP.type = 'lowpass';
+    this.filterLP.frequency.value = FILTER_MAX_HZ;
+    this.filterLP.Q.value = 0;
+    this.filterHP = ctx.createBiquadFilter();
+    this.filterHP.type = 'highpass';
+    this.filterHP.frequency.value = FILTER_MIN_HZ;
+    this.filterHP.Q.value = 0;
 
-    // routing: source -> EQ -> dryGain -> master
-    // and source -> wetGain chain (delay -> filter -> convolver -> wetGain)
+    this.fxRack = new FxRack(ctx, this.engine.impulses!);
 
-    // connect EQ chain to dry/wet
+    // routing: source -> trim -> EQ -> filter -> FX rack -> channel
+    this.input.connect(this.trim);
+    this.trim.connect(this.lowEQ);
     this.lowEQ.connect(this.midEQ);
     this.midEQ.connect(this.highEQ);
-    this.highEQ.connect(this.dryGain!);
+    this.highEQ.connect(this.filterLP);
+    this.filterLP.connect(this.filterHP);
+    this.filterHP.connect(this.fxRack.input);
 
-    // delay feedback loop
-    this.delay.connect(this.delayFeedbackGain);
-    this.delayFeedbackGain.connect(this.delay);
-    this.delay.connect(this.fxLowpass!);
-    this.fxLowpass!.connect(this.convolver);
-    this.convolver.connect(this.wetGain!);
+    // final connects: channel -> fader -> crossfader -> master, and channel -> PFL -> cue bus
+    this.fxRack.output.connect(this.channel);
+    this.channel.connect(this.gain!);
+    this.gain!.connect(this.xfade);
+    this.xfade.connect(this.engine.masterGain!);
+    this.channel.connect(this.pfl);
+    this.pfl.connect(this.engine.cue!.input);
+    this.pfl.gain.value = 0;
 
-    // final connects
-    this.dryGain!.connect(this.gain!);
-    this.wetGain!.connect(this.gain!);
-    this.gain!.connect(this.engine.masterGain!);
+    // meters: pre-fader on the channel sum, post-fader after the crossfader
+    this.preMeter = new LevelMeter(ctx, this.channel);
+    this.postMeter = new LevelMeter(ctx, this.xfade);
 
     // set initial fades
-    this.dryGain!.gain.value = 1 - this.fx.wet;
-    this.wetGain!.gain.value = this.fx.wet;
     this.gain!.gain.value = this.volumeVal;
   }
 
-  async loadBuffer(buffer: AudioBuffer) {
+  // `cached` skips analysis for tracks the library has already analyzed
+  async loadBuffer(buffer: AudioBuffer, trackHash: string | null = null, cached: AnalysisResult | null = null) {
     this.buffer = buffer;
+    this.trackHash = trackHash;
+    this.hotCues = trackHash ? loadCues(trackHash) : emptyCues();
     this.position = 0;
+    this.stopScratch();
     this.stopSourceIfAny();
-    // compute peaks and RMS for UI/visuals
-    try {
-      this.peaks = computePeaks(buffer, 2048);
-      this.rms = computeRMS(buffer);
-      this.duration = buffer.duration;
-    } catch (e) {
-      this.peaks = null;
-      this.rms = null;
-      this.duration = buffer.duration || null;
+    this.loadScratchBuffer();
+    this.loopEnabled = false;
+    this.roll = null;
+    this.duration = buffer.duration || null;
+    this.peaks = null;
+    this.loudness = null;
+    this.bpm = null;
+    this.downbeat = null;
+    this.beatgrid = null;
+    this.key = null;
+    this.bands = null;
+    this.analysis?.cancel();
+    this.analysis = null;
+    this.applyTrim();
+    // library entries analyzed before loudness was measured are analyzed again, and the library updated
+    if (cached && cached.loudness !== undefined) {
+      if (cached.peaks) this.onAnalysis({ type: 'overview', peaks: cached.peaks, loudness: cached.loudness });
+      if (cached.bands) this.onAnalysis({ type: 'bands', bands: cached.bands });
+      this.onAnalysis({ type: 'tempo', tempo: cached.tempo });
+      this.onAnalysis({ type: 'key', key: cached.key });
+      this.analysisProgress = 1;
+      return;
+    }
+    // analysis runs in a worker; results arrive progressively and a newer load cancels it
+    this.analysisProgress = 0;
+    const stale = cached && trackHash;
+    const result = emptyAnalysis();
+    let failed = false;
+    const job = analyzeTrack(buffer, (msg) => {
+      this.onAnalysis(msg);
+      absorbAnalysis(result, msg);
+      if (msg.type === 'error') failed = true;
+    });
+    this.analysis = job;
+    job.done.then(() => {
+      // cancelled by a newer load
+      if (this.analysis !== job) return;
+      this.analysis = null;
+      if (stale && !failed) updateTrackAnalysis(stale, result).catch((e) => console.warn('Could not update library analysis', e));
+    });
+  }
+
+  private onAnalysis(msg: AnalysisMessage) {
+    switch (msg.type) {
+      case 'overview':
+        this.peaks = msg.peaks;
+        this.loudness = msg.loudness;
+        this.applyTrim();
+        break;
+      case 'bands':
+        this.bands = msg.bands;
+        break;
+      case 'tempo':
+        this.bpm = msg.tempo?.bpm ?? null;
+        this.downbeat = msg.tempo?.downbeat ?? null;
+        this.beatgrid = msg.tempo?.beatgrid ?? null;
+        this.updateFxTempo();
+        // re-match tempo now that this deck (as follower or leader) has a grid
+        if (this.syncLeader) this.followLeader();
+        this.engine.updateFollowers(this);
+        break;
+      case 'key':
+        this.key = msg.key;
+        break;
+      case 'progress':
+        this.analysisProgress = msg.progress;
+        break;
+      case 'error':
+        console.warn('Track analysis failed', msg.message);
+        this.analysisProgress = 1;
+        break;
     }
   }
 
@@ -169,13 +352,15 @@ class Deck {
       src.loopStart = this.loopStart;
       src.loopEnd = this.loopEnd || this.loopStart + 1;
     }
-    // connect into EQ chain
-    src.connect(this.lowEQ!);
+    src.playbackRate.value = this.rate;
+    // connect into EQ chain (through key-lock when enabled)
+    src.connect(this.input!);
 
     this.source = src;
   }
 
-  private restartWithFade(offset: number, fadeMs?: number) {
+  // `advance` keeps the playhead moving during the fade gap, so `offset` is treated as the position right now
+  private restartWithFade(offset: number, fadeMs?: number, advance = false) {
     const fade = typeof fadeMs === 'number' ? fadeMs : this.engine.fadeMs;
     const ctx = this.ensureCtx();
     const now = ctx.currentTime;
@@ -183,7 +368,7 @@ class Deck {
       this.stopSourceIfAny();
       this.createSource(offset);
       if (this.source) {
-        this.startTime = ctx.currentTime - offset;
+        this.anchor(offset, ctx.currentTime);
         this.source.start(0, offset);
         this.isPlaying = true;
       }
@@ -207,8 +392,9 @@ class Deck {
       try {
         this.gain!.gain.setValueAtTime(0, nnow);
       } catch (e) {}
-      this.source!.start(0, offset);
-      this.startTime = nnow - offset;
+      const startAt = advance ? Math.max(0, offset + (nnow - now) * this.rate) : offset;
+      this.source!.start(0, startAt);
+      this.anchor(startAt, nnow);
       this.isPlaying = true;
       try {
         this.gain!.gain.linearRampToValueAtTime(this.volumeVal, nnow + fade);
@@ -219,19 +405,29 @@ class Deck {
     }, ms);
   }
 
-  play() {
+  // `at` starts the deck at a later context time instead of right away (automation schedules starts ahead)
+  play(at?: number) {
     const ctx = this.ensureCtx();
     if (!this.buffer) return;
+    if (this.scratch) {
+      this.scratch.resume = true;
+      this.updateScratchRelease();
+      return;
+    }
     if (this.isPlaying) return;
-    const startAt = this.position % this.buffer.duration;
+    let startAt = this.position % this.buffer.duration;
+    // a synced deck starts in phase with its leader
+    const shift = this.phaseOffsetToLeader(startAt);
+    if (shift !== null) startAt = clamp(startAt + shift, 0, this.buffer.duration);
     // normal start without fade
     this.createSource(startAt);
     if (!this.source) return;
-    this.startTime = ctx.currentTime - startAt;
+    const when = Math.max(ctx.currentTime, at ?? 0);
+    this.anchor(startAt, when);
     try {
       // ensure gain at desired volume
-      this.gain && this.gain.gain.setValueAtTime(this.volumeVal, ctx.currentTime);
-      this.source.start(0, startAt);
+      this.gain && this.gain.gain.setValueAtTime(this.volumeVal, when);
+      this.source.start(when, startAt);
       this.isPlaying = true;
     } catch (e) {
       console.warn('Source start error', e);
@@ -240,9 +436,15 @@ class Deck {
 
   pause() {
     const ctx = this.ensureCtx();
+    if (this.scratch) {
+      this.scratch.resume = false;
+      this.scratch.reverse = false;
+      this.updateScratchRelease();
+      return;
+    }
     if (!this.isPlaying) return;
     // update position
-    this.position = ctx.currentTime - this.startTime;
+    this.position = this.positionAt(ctx.currentTime);
     if (this.position < 0) this.position = 0;
     this.stopSourceIfAny();
   }
@@ -252,21 +454,223 @@ class Deck {
     if (!this.buffer) return;
     const t = clamp(timeSec, 0, this.buffer.duration || timeSec);
     this.position = t;
+    if (this.scratch) {
+      this.scratchNode!.port.postMessage({ type: 'seek', position: t });
+      this.scratch.pos = t;
+      this.scratch.time = ctx.currentTime;
+      return;
+    }
     if (this.isPlaying) {
       // restart with micro-fade to avoid clicks
       this.restartWithFade(t);
     }
   }
 
-  jog(deltaSec: number) {
-    // small local seeking for jog/scratch feel
-    if (!this.buffer) return;
+  // jog nudges arrive once per camera frame; their rate of change drives the scratch player.
+  // `dt` replaces the time since the last nudge (automation replays the one measured when recording);
+  // returns the time step used
+  jog(deltaSec: number, dt?: number) {
+    if (!this.buffer) return null;
+    const now = performance.now();
+    const step = dt ?? clamp((now - this.lastJogAt) / 1000, 1 / 120, 0.1);
+    this.lastJogAt = now;
+    if (this.scratchAt(deltaSec / step)) return step;
+    // no worklet: fall back to small local seeks
     // clamp velocity so no jumps
     const maxStep = 5; // seconds per call
-    const step = clamp(deltaSec, -maxStep, maxStep);
-    const newPos = clamp((this.isPlaying ? this.engine.getCurrentTime(this.id) : this.position) + step, 0, this.buffer.duration);
+    const newPos = clamp((this.isPlaying ? this.engine.getCurrentTime(this.id) : this.position) + clamp(deltaSec, -maxStep, maxStep), 0, this.buffer.duration);
     if (this.isPlaying) this.restartWithFade(newPos);
     else this.seek(newPos);
+    return step;
+  }
+
+  // move the platter at `velocity` × normal speed (negative plays backwards). Without further input
+  // for SCRATCH_RELEASE_MS the platter is let go and glides back to the deck's own speed.
+  scratchAt(velocity: number) {
+    if (!this.buffer) return false;
+    if (!this.scratch && !this.startScratch()) return false;
+    const rate = clamp(velocity, -SCRATCH_MAX_RATE, SCRATCH_MAX_RATE);
+    this.scratch!.released = false;
+    this.scratchNode!.port.postMessage({ type: 'rate', rate });
+    if (this.scratchTimer) clearTimeout(this.scratchTimer);
+    this.scratchTimer = window.setTimeout(() => this.releaseScratch(), SCRATCH_RELEASE_MS);
+    return true;
+  }
+
+  releaseScratch() {
+    if (this.scratchTimer) {
+      clearTimeout(this.scratchTimer);
+      this.scratchTimer = null;
+    }
+    if (!this.scratch || this.scratch.released) return;
+    this.scratch.released = true;
+    this.updateScratchRelease();
+  }
+
+  isScratching() {
+    return this.scratch !== null;
+  }
+
+  // turntable stop: the platter slows from its current speed to a standstill
+  brake(duration = this.stopTime) {
+    if (!this.playing) return;
+    if (!this.rampScratch(null, duration)) this.pause();
+  }
+
+  // the record is flung backwards and winds down to a stop
+  spinback(duration = this.stopTime) {
+    if (!this.buffer) return;
+    if (!this.rampScratch(-SPINBACK_RATE, duration)) this.pause();
+  }
+
+  // play backwards until switched off, then carry on forwards (or stay stopped if the deck was paused)
+  setReverse(on: boolean) {
+    if (!this.buffer || on === this.getReverse()) return;
+    if (!this.scratch && !this.startScratch()) return;
+    if (this.scratchTimer) {
+      clearTimeout(this.scratchTimer);
+      this.scratchTimer = null;
+    }
+    this.scratch!.reverse = on;
+    this.scratch!.released = true;
+    this.updateScratchRelease();
+  }
+
+  getReverse() {
+    return !!this.scratch?.reverse;
+  }
+
+  setStopTime(seconds: number) {
+    this.stopTime = clamp(seconds, STOP_TIMES[0], STOP_TIMES[STOP_TIMES.length - 1]);
+  }
+
+  getStopTime() {
+    return this.stopTime;
+  }
+
+  // linear rate ramp to a stop, starting from `from` (or the platter's current speed)
+  private rampScratch(from: number | null, duration: number) {
+    if (!this.scratch && !this.startScratch()) return false;
+    if (this.scratchTimer) {
+      clearTimeout(this.scratchTimer);
+      this.scratchTimer = null;
+    }
+    const s = this.scratch!;
+    s.resume = false;
+    s.reverse = false;
+    s.released = true;
+    this.scratchNode!.port.postMessage({ type: 'ramp', rate: from ?? undefined, target: 0, duration });
+    return true;
+  }
+
+  // the scratch player copies the track when it loads rather than on the first jog; the worklet
+  // lets go of the previous track's channels when the new ones arrive
+  private loadScratchBuffer() {
+    const buffer = this.buffer;
+    this.engine.workletsReady
+      .then(() => {
+        if (this.buffer === buffer) this.ensureScratchNode();
+      })
+      .catch(() => {});
+  }
+
+  private ensureScratchNode() {
+    const ctx = this.ensureCtx();
+    if (!this.scratchNode) {
+      try {
+        // throws until the processor is registered (or when worklets are unsupported)
+        this.scratchNode = new AudioWorkletNode(ctx, SCRATCH, { numberOfInputs: 0, outputChannelCount: [2] });
+      } catch (e) {
+        return null;
+      }
+      this.scratchNode.port.onmessage = (e) => this.onScratchMessage(e.data as ScratchMessage);
+      this.scratchNode.connect(this.input!);
+    }
+    if (this.buffer && this.scratchBuffer !== this.buffer) {
+      const channels = Array.from({ length: this.buffer.numberOfChannels }, (_, c) => this.buffer!.getChannelData(c).slice());
+      this.scratchNode.port.postMessage({ type: 'load', channels }, channels.map((c) => c.buffer));
+      this.scratchBuffer = this.buffer;
+    }
+    return this.scratchNode;
+  }
+
+  // take over from the buffer source at the same spot, sample-accurately a moment from now
+  private startScratch() {
+    const node = this.ensureScratchNode();
+    if (!node) return false;
+    const ctx = this.ensureCtx();
+    const resume = this.isPlaying;
+    const at = ctx.currentTime + SCRATCH_HANDOFF;
+    const rate = resume ? this.rate : 0;
+    const pos = resume ? this.positionAt(at) : this.position;
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+    if (this.source) {
+      const src = this.source;
+      src.onended = () => src.disconnect();
+      try {
+        src.stop(at);
+      } catch (e) {}
+      this.source = null;
+    }
+    this.isPlaying = false;
+    this.gain?.gain.cancelScheduledValues(ctx.currentTime);
+    this.gain?.gain.setValueAtTime(this.volumeVal, ctx.currentTime);
+    this.position = pos;
+    this.scratch = { resume, reverse: false, released: false, pos, rate, time: at };
+    const loop = this.loopEnabled ? { start: this.loopStart, end: this.loopEnd } : null;
+    node.port.postMessage({ type: 'start', position: pos, rate, at, loop });
+    return true;
+  }
+
+  // speed the platter settles on once it is let go
+  private scratchTarget() {
+    if (!this.scratch) return 0;
+    if (this.scratch.reverse) return -this.rate;
+    return this.scratch.resume ? this.rate : 0;
+  }
+
+  private updateScratchRelease() {
+    if (!this.scratch?.released) return;
+    this.scratchNode!.port.postMessage({ type: 'release', rate: this.scratchTarget() });
+  }
+
+  private stopScratch() {
+    if (this.scratchTimer) {
+      clearTimeout(this.scratchTimer);
+      this.scratchTimer = null;
+    }
+    if (!this.scratch) return;
+    this.scratch = null;
+    this.scratchNode?.port.postMessage({ type: 'stop' });
+  }
+
+  private onScratchMessage(msg: ScratchMessage) {
+    const s = this.scratch;
+    if (!s) return;
+    if (msg.type === 'position') {
+      s.pos = msg.position;
+      s.rate = msg.rate;
+      s.time = msg.time;
+      return;
+    }
+    // ignore a release that was grabbed again or retargeted before it settled; reverse keeps the scratch player running
+    if (!s.released || s.reverse || Math.abs(msg.rate - this.scratchTarget()) > 0.01) return;
+    this.scratch = null;
+    this.position = msg.position;
+    if (msg.rate === 0) return;
+    // hand back to a buffer source that starts exactly where the scratch player stops
+    const ctx = this.ensureCtx();
+    const at = Math.max(ctx.currentTime + SCRATCH_HANDOFF, msg.time);
+    const offset = clamp(msg.position + (at - msg.time) * msg.rate, 0, this.buffer?.duration ?? 0);
+    this.createSource(offset);
+    if (!this.source) return;
+    this.source.start(at, offset);
+    this.anchor(offset, at);
+    this.isPlaying = true;
+    this.scratchNode!.port.postMessage({ type: 'stopAt', time: at });
   }
 
   setVolume(v: number) {
@@ -274,10 +678,33 @@ class Deck {
     if (this.gain) this.gain.gain.setValueAtTime(this.volumeVal, this.ensureCtx().currentTime);
   }
 
+  getVolume() {
+    return this.volumeVal;
+  }
+
+  // pre-fader listen on the headphone cue bus
+  setPfl(on: boolean) {
+    this.pflOn = on;
+    if (this.pfl) this.pfl.gain.setValueAtTime(on ? 1 : 0, this.ensureCtx().currentTime);
+  }
+
+  getPfl() {
+    return this.pflOn;
+  }
+
   // called by AudioEngine.setCrossfade
   setGainValue(v: number) {
-    if (this.gain) this.gain.gain.setValueAtTime(clamp(v, 0, 1), this.ensureCtx().currentTime);
-    else this.volumeVal = clamp(v, 0, 1);
+    if (this.xfade) this.xfade.gain.setValueAtTime(clamp(v, 0, 1), this.ensureCtx().currentTime);
+  }
+
+  readMeters() {
+    if (!this.preMeter || !this.postMeter) return null;
+    return { pre: this.preMeter.read(), post: this.postMeter.read() };
+  }
+
+  resetMeters() {
+    this.preMeter?.reset();
+    this.postMeter?.reset();
   }
 
   setEQ({ low, mid, high }: EQSettings) {
@@ -295,46 +722,396 @@ class Deck {
     if (this.highEQ) this.highEQ.gain.value = h;
   }
 
-  setFX(s: Partial<FXSettings>) {
-    this.fx = { ...this.fx, ...s };
-    if (this.delay) this.delay.delayTime.value = clamp(this.fx.delayTime, 0, 5);
-    if (this.delayFeedbackGain) this.delayFeedbackGain.gain.value = clamp(this.fx.delayFeedback, 0, 0.6);
-    if (this.fxLowpass) this.fxLowpass.frequency.value = clamp(this.fx.lowpassCutoff, 40, 20000);
-    if (this.wetGain) this.wetGain.gain.value = clamp(this.fx.wet, 0, 1);
-    if (this.dryGain) this.dryGain.gain.value = 1 - clamp(this.fx.wet, 0, 1);
+  getEQ(): EQSettings {
+    return { ...this.eq };
   }
 
-  setLoop(on: boolean, lengthSec?: number) {
-    this.loopEnabled = on;
+  // -1..1: left of center sweeps the low-pass down, right sweeps the high-pass up, center bypasses both
+  setFilter(amount: number) {
+    const a = clamp(amount, -1, 1);
+    this.filterAmount = Math.abs(a) < FILTER_DEADZONE ? 0 : a;
+    if (!this.filterLP || !this.filterHP) return;
+    const ctx = this.ensureCtx();
+    const now = ctx.currentTime;
+    const lp = a < 0 ? FILTER_MAX_HZ * Math.pow(FILTER_LP_MIN_HZ / FILTER_MAX_HZ, -this.filterAmount) : FILTER_MAX_HZ;
+    const hp = a > 0 ? FILTER_MIN_HZ * Math.pow(FILTER_HP_MAX_HZ / FILTER_MIN_HZ, this.filterAmount) : FILTER_MIN_HZ;
+    // resonance fades in away from center so the bypass position stays flat
+    const q = Math.min(1, Math.abs(this.filterAmount) * 4) * FILTER_RESONANCE;
+    this.filterLP.frequency.setTargetAtTime(lp, now, 0.015);
+    this.filterHP.frequency.setTargetAtTime(hp, now, 0.015);
+    this.filterLP.Q.setTargetAtTime(a < 0 ? q : 0, now, 0.015);
+    this.filterHP.Q.setTargetAtTime(a > 0 ? q : 0, now, 0.015);
+  }
+
+  getFilter() {
+    return this.filterAmount;
+  }
+
+  setTrim(db: number) {
+    this.trimDb = clamp(db, -TRIM_RANGE_DB, TRIM_RANGE_DB);
+    this.applyTrim();
+  }
+
+  setAutoGain(on: boolean) {
+    this.autoGain = on;
+    this.applyTrim();
+  }
+
+  // `gain` is the dB applied by the trim stage: the trim plus any auto-gain offset
+  getTrim() {
+    return { trim: this.trimDb, autoGain: this.autoGain, gain: this.trimDb + this.autoGainDb() };
+  }
+
+  // offset that brings the track to the engine's target loudness; none until the track is measured
+  private autoGainDb() {
+    if (!this.autoGain || this.loudness === null) return 0;
+    return clamp(this.engine.getTargetLoudness() - this.loudness, -AUTO_GAIN_MAX_DB, AUTO_GAIN_MAX_DB);
+  }
+
+  // called by AudioEngine.setTargetLoudness
+  applyTrim() {
+    if (!this.trim) return;
+    const gain = Math.pow(10, (this.trimDb + this.autoGainDb()) / 20);
+    this.trim.gain.setTargetAtTime(gain, this.ensureCtx().currentTime, 0.05);
+  }
+
+  addEffect(type: EffectType) {
+    const id = this.fxRack?.add(type) ?? null;
+    this.updateFxTempo();
+    return id;
+  }
+
+  removeEffect(unitId: number) {
+    this.fxRack?.remove(unitId);
+  }
+
+  moveEffect(unitId: number, index: number) {
+    this.fxRack?.move(unitId, index);
+  }
+
+  setEffectParam(unitId: number, param: string, value: number) {
+    this.fxRack?.setParam(unitId, param, value);
+  }
+
+  setEffectEnabled(unitId: number, on: boolean) {
+    this.fxRack?.setEnabled(unitId, on);
+  }
+
+  setEffectImpulse(unitId: number, ir: UserImpulse) {
+    this.fxRack?.setImpulse(unitId, ir);
+  }
+
+  getEffects() {
+    return this.fxRack?.getState() ?? [];
+  }
+
+  // beat-based FX parameters follow the effective tempo (detected BPM times the tempo fader)
+  private updateFxTempo() {
+    this.fxRack?.setBpm((this.bpm ?? FALLBACK_BPM) * this.rate);
+  }
+
+  // store a hot cue at `time` (defaults to the playhead)
+  setHotCue(index: number, time?: number) {
+    if (!this.buffer || index < 0 || index >= HOT_CUE_COUNT) return;
+    const t = clamp(typeof time === 'number' ? time : this.getPosition(), 0, this.buffer.duration);
+    this.hotCues = this.hotCues.map((c, i) => (i === index ? t : c));
+    if (this.trackHash) saveCues(this.trackHash, this.hotCues);
+  }
+
+  deleteHotCue(index: number) {
+    if (index < 0 || index >= HOT_CUE_COUNT) return;
+    this.hotCues = this.hotCues.map((c, i) => (i === index ? null : c));
+    if (this.trackHash) saveCues(this.trackHash, this.hotCues);
+  }
+
+  jumpToHotCue(index: number) {
+    const t = this.hotCues[index];
+    if (t === null || t === undefined || !this.buffer) return;
+    this.seek(t);
+  }
+
+  // loop of `beats` beats starting on the beat at or before the playhead
+  setLoop(on: boolean, beats?: number) {
+    if (typeof beats === 'number') this.loopBeats = clamp(beats, LOOP_BEATS[0], LOOP_BEATS[LOOP_BEATS.length - 1]);
     if (on) {
-      const cur = this.engine.getCurrentTime(this.id);
-      this.loopStart = cur;
-      this.loopEnd = cur + (lengthSec || 1);
-      if (this.buffer && this.loopEnd > this.buffer.duration) this.loopEnd = this.buffer.duration;
+      const { bpm, downbeat } = this.grid();
+      const start = timeAtBeat(bpm, downbeat, Math.floor(beatAt(bpm, downbeat, this.getPosition()) + 1e-6));
+      this.setLoopRegion(Math.max(0, start), this.loopBeats);
     }
-    // if playing, recreate source to apply loop flags
-    if (this.isPlaying) {
-      const playPos = this.engine.getCurrentTime(this.id);
-      this.createSource(playPos);
-      if (this.source) {
-        this.startTime = this.ensureCtx().currentTime - playPos;
-        this.source.start(0, playPos);
-      }
+    this.loopEnabled = on;
+    this.applyLoop();
+  }
+
+  // resize around the current loop start, e.g. 0.5 to halve and 2 to double
+  resizeLoop(factor: number) {
+    const beats = clamp(this.loopBeats * factor, LOOP_BEATS[0], LOOP_BEATS[LOOP_BEATS.length - 1]);
+    this.loopBeats = beats;
+    if (!this.loopEnabled) return;
+    this.setLoopRegion(this.loopStart, beats);
+    this.applyLoop();
+  }
+
+  // shift the loop by a number of beats (negative moves it back)
+  moveLoop(beats: number) {
+    if (!this.loopEnabled) return;
+    const shift = beats * beatLength(this.grid().bpm);
+    const start = clamp(this.loopStart + shift, 0, Math.max(0, (this.buffer?.duration ?? 0) - (this.loopEnd - this.loopStart)));
+    this.setLoopRegion(start, this.loopBeats);
+    this.applyLoop();
+  }
+
+  // momentary loop; stopRoll returns to where playback would have been
+  startRoll(beats: number) {
+    if (!this.buffer || this.roll) return;
+    const now = this.ensureCtx().currentTime;
+    this.roll = {
+      anchorPos: this.getPosition(),
+      anchorTime: now,
+      rate: this.rate,
+      prev: { enabled: this.loopEnabled, start: this.loopStart, end: this.loopEnd, beats: this.loopBeats }
+    };
+    this.setLoop(true, beats);
+  }
+
+  stopRoll() {
+    const roll = this.roll;
+    if (!roll) return;
+    this.roll = null;
+    const now = this.ensureCtx().currentTime;
+    const ghost = roll.anchorPos + (this.isPlaying ? (now - roll.anchorTime) * roll.rate : 0);
+    this.loopEnabled = roll.prev.enabled;
+    this.loopStart = roll.prev.start;
+    this.loopEnd = roll.prev.end;
+    this.loopBeats = roll.prev.beats;
+    this.applyLoop();
+    const t = clamp(ghost, 0, this.buffer?.duration ?? ghost);
+    if (this.isPlaying) this.restartWithFade(t, undefined, true);
+    else this.seek(t);
+  }
+
+  getLoop() {
+    const loop: LoopInfo | null = this.loopEnabled ? { start: this.loopStart, end: this.loopEnd, beats: this.loopBeats } : null;
+    return { loop, beats: this.loopBeats, rolling: this.roll !== null };
+  }
+
+  // detected tempo, or a 120 BPM grid from 0 when unknown
+  private grid() {
+    return { bpm: this.bpm ?? FALLBACK_BPM, downbeat: this.downbeat ?? 0 };
+  }
+
+  private setLoopRegion(start: number, beats: number) {
+    this.loopStart = start;
+    this.loopEnd = start + beats * beatLength(this.grid().bpm);
+    if (this.buffer && this.loopEnd > this.buffer.duration) this.loopEnd = this.buffer.duration;
+  }
+
+  // loop points can change on a running source; re-anchor first so the position stays continuous
+  private applyLoop() {
+    // during a scratch the worklet plays the track and wraps at the loop itself
+    if (this.scratch) this.scratchNode!.port.postMessage({ type: 'loop', loop: this.loopEnabled ? { start: this.loopStart, end: this.loopEnd } : null });
+    const ctx = this.engine.audioCtx;
+    if (!ctx || !this.source) return;
+    const now = ctx.currentTime;
+    if (this.isPlaying) this.anchor(this.positionAt(now), now);
+    this.source.loop = this.loopEnabled;
+    if (this.loopEnabled) {
+      this.source.loopStart = this.loopStart;
+      this.source.loopEnd = this.loopEnd;
     }
   }
 
+  // tempo-match to the leader, align phase if both are playing, and keep following its tempo
+  syncTo(leader: Deck) {
+    if (!this.bpm || !leader.bpm || leader === this) return false;
+    this.syncLeader = leader;
+    if (!this.followLeader()) {
+      this.syncLeader = null;
+      return false;
+    }
+    if (this.isPlaying && leader.isPlaying) {
+      const pos = this.getPosition();
+      const shift = this.phaseOffsetToLeader(pos);
+      if (shift) this.restartWithFade(pos + shift, undefined, true);
+    }
+    return true;
+  }
+
+  unsync() {
+    this.syncLeader = null;
+  }
+
+  isSynced() {
+    return this.syncLeader !== null;
+  }
+
+  // match the leader's effective tempo; half/double time is folded so the rate stays near 1
+  followLeader() {
+    const leader = this.syncLeader;
+    if (!leader || !this.bpm || !leader.bpm) return false;
+    let ratio = (leader.bpm * leader.rate) / this.bpm;
+    while (ratio > 1.5) ratio /= 2;
+    while (ratio < 0.75) ratio *= 2;
+    const pct = (ratio - 1) * 100;
+    const range = TEMPO_RANGES.find((r) => Math.abs(pct) <= r);
+    if (!range) return false;
+    if (Math.abs(pct) > this.tempoRange) this.tempoRange = range;
+    this.tempoPct = pct;
+    this.applyRate();
+    return true;
+  }
+
+  // track seconds to add at `pos` so our beat phase matches the playing leader, or null if not applicable
+  private phaseOffsetToLeader(pos: number) {
+    const leader = this.syncLeader;
+    if (!leader || !leader.isPlaying || !this.bpm || !leader.bpm) return null;
+    const leaderPhase = beatPhase(leader.bpm, leader.downbeat ?? 0, leader.getPosition());
+    const ownPhase = beatPhase(this.bpm, this.downbeat ?? 0, pos);
+    return wrapPhase(leaderPhase - ownPhase) * beatLength(this.bpm);
+  }
+
+  get playing() {
+    return this.isPlaying || !!this.scratch?.resume || !!this.scratch?.reverse;
+  }
+
+  get rate() {
+    return 1 + this.tempoPct / 100;
+  }
+
+  getTempo() {
+    return { tempo: this.tempoPct, range: this.tempoRange, keyLock: this.keyLock, rate: this.rate };
+  }
+
+  setTempo(pct: number) {
+    this.tempoPct = clamp(pct, -this.tempoRange, this.tempoRange);
+    this.applyRate();
+  }
+
+  setTempoRange(range: TempoRange) {
+    this.tempoRange = range;
+    // re-clamp the current tempo into the new range
+    this.setTempo(this.tempoPct);
+  }
+
+  setKeyLock(on: boolean) {
+    this.keyLock = on;
+    if (!on) {
+      this.routeKeyLock(false);
+      return;
+    }
+    const ctx = this.ensureCtx();
+    if (!supportsWorklets(ctx)) {
+      console.warn('Key-lock unavailable: AudioWorklet not supported');
+      return;
+    }
+    this.engine.workletsReady
+      .then(() => {
+        if (!this.keyLock) return;
+        if (!this.keyLockNode) {
+          this.keyLockNode = new AudioWorkletNode(ctx, PITCH_SHIFTER, { outputChannelCount: [2] });
+          this.keyLockNode.connect(this.lowEQ!);
+        }
+        this.routeKeyLock(true);
+        this.applyRate();
+      })
+      .catch((e) => console.warn('Key-lock worklet failed to load', e));
+  }
+
+  private routeKeyLock(on: boolean) {
+    if (!this.trim || !this.lowEQ) return;
+    try {
+      this.trim.disconnect();
+    } catch (e) {}
+    if (on && this.keyLockNode) this.trim.connect(this.keyLockNode);
+    else this.trim.connect(this.lowEQ);
+  }
+
+  // push the current rate to the live source (and pitch compensation) without moving the playhead
+  private applyRate() {
+    const ctx = this.engine.audioCtx;
+    if (!ctx) return;
+    const now = ctx.currentTime;
+    if (this.isPlaying) this.anchor(this.positionAt(now), now);
+    // the roll's ghost playhead moved at the old rate until now
+    if (this.roll && this.isPlaying) {
+      this.roll.anchorPos += (now - this.roll.anchorTime) * this.roll.rate;
+      this.roll.anchorTime = now;
+    }
+    if (this.roll) this.roll.rate = this.rate;
+    this.updateFxTempo();
+    if (this.source) this.source.playbackRate.setValueAtTime(this.rate, now);
+    this.updateScratchRelease();
+    const pitch = this.keyLockNode?.parameters.get('pitch');
+    if (pitch) pitch.setValueAtTime(this.keyLock ? 1 / this.rate : 1, now);
+  }
+
+  private anchor(pos: number, time: number) {
+    this.anchorPos = pos;
+    this.anchorTime = time;
+    this.anchorRate = this.rate;
+  }
+
+  // track position at a given context time while playing (track seconds, not wall-clock seconds)
+  private positionAt(time: number) {
+    const pos = this.anchorPos + (time - this.anchorTime) * this.anchorRate;
+    // the source wraps back to loopStart once it reaches loopEnd
+    const len = this.loopEnd - this.loopStart;
+    if (this.loopEnabled && len > 0 && pos >= this.loopEnd) return this.loopStart + ((pos - this.loopStart) % len);
+    return pos;
+  }
+
   getPosition() {
     if (!this.engine.audioCtx) return this.position;
-    if (this.isPlaying) return this.engine.audioCtx.currentTime - this.startTime;
+    if (this.scratch) {
+      const s = this.scratch;
+      return clamp(s.pos + Math.max(0, this.engine.audioCtx.currentTime - s.time) * s.rate, 0, this.buffer?.duration ?? 0);
+    }
+    if (this.isPlaying) return this.positionAt(this.engine.audioCtx.currentTime);
     return this.position;
   }
 }
 
+// transparent below -1 dBFS, then bends smoothly so the output never exceeds full scale
+function createSafetyCurve(size = 4096) {
+  const curve = new Float32Array(size);
+  const knee = 0.89;
+  for (let i = 0; i < size; i++) {
+    const x = (i / (size - 1)) * 2 - 1;
+    const a = Math.abs(x);
+    const y = a <= knee ? a : knee + (1 - knee) * Math.tanh((a - knee) / (1 - knee));
+    curve[i] = Math.sign(x) * Math.min(0.999, y);
+  }
+  return curve;
+}
+
 export default class AudioEngine {
   audioCtx: AudioContext | null = null;
   masterGain: GainNode | null = null;
-  private decks: Record<'A' | 'B', Deck> | null = null;
+  cue: CueBus | null = null;
+  // reverb impulses, shared by all decks
+  impulses: ImpulseLibrary | null = null;
+  // pad sampler, summed into the master bus alongside the decks
+  sampler: Sampler | null = null;
+  private automix = new Automix(this);
+  private queues: Record<DeckId, DeckQueue> = { A: new DeckQueue(this, 'A'), B: new DeckQueue(this, 'B'), C: new DeckQueue(this, 'C'), D: new DeckQueue(this, 'D') };
+  private decks: Record<DeckId, Deck> | null = null;
   private masterAnalyser: AnalyserNode | null = null;
+  private masterMeter: LevelMeter | null = null;
+  // brickwall limiter: compressor with a fast attack followed by a soft safety clipper
+  private limiter: DynamicsCompressorNode | null = null;
+  private limiterMakeup: GainNode | null = null;
+  private safetyClip: WaveShaperNode | null = null;
+  private limiterOn = false;
+  // resolves once all AudioWorklet processors are registered
+  workletsReady: Promise<void> = Promise.resolve();
+  private recorder: MixRecorder | null = null;
+  private loadTokens: Partial<Record<DeckId, number>> = {};
+  private deckCount: DeckCount = 2;
+  private targetLoudness = DEFAULT_TARGET_LOUDNESS;
+  private crossfadeX = 0.5;
+  private xfaderCurve: CrossfaderCurve = 'smooth';
+  private xfaderCutIn = DEFAULT_CUT_IN;
+  private hamster = false;
+  private xfaderAssign: Record<DeckId, CrossfaderSide> = { A: 'left', B: 'right', C: 'left', D: 'right' };
 
   // default micro-fade in seconds
   fadeMs = 0.008;
@@ -352,11 +1129,39 @@ export default class AudioEngine {
       this.masterAnalyser = this.audioCtx.createAnalyser();
       this.masterAnalyser.fftSize = 2048;
       this.masterAnalyser.smoothingTimeConstant = 0.3;
-      // route: masterGain -> analyser -> destination
-      this.masterGain.connect(this.masterAnalyser);
-      this.masterAnalyser.connect(this.audioCtx.destination);
+      this.limiter = this.audioCtx.createDynamicsCompressor();
+      this.limiter.threshold.value = LIMITER_THRESHOLD_DB;
+      this.limiter.knee.value = 0;
+      this.limiter.ratio.value = LIMITER_RATIO;
+      this.limiter.attack.value = 0.001;
+      this.limiter.release.value = 0.1;
+      // the compressor adds makeup gain on its own (0.6 × the reduction at full scale, per the Web Audio
+      // spec); take it back out so engaging the limiter doesn't raise the level into the safety clipper
+      const fullScaleDb = LIMITER_THRESHOLD_DB * (1 - 1 / LIMITER_RATIO);
+      this.limiterMakeup = this.audioCtx.createGain();
+      this.limiterMakeup.gain.value = Math.pow(10, (0.6 * fullScaleDb) / 20);
+      this.safetyClip = this.audioCtx.createWaveShaper();
+      this.safetyClip.curve = createSafetyCurve();
+      this.safetyClip.oversample = '4x';
+      this.limiter.connect(this.limiterMakeup);
+      this.limiterMakeup.connect(this.safetyClip);
+      this.safetyClip.connect(this.masterAnalyser);
+      this.routeLimiter();
+      // route: masterGain -> [limiter] -> analyser -> destination (the cue bus owns the final connection)
+      this.masterMeter = new LevelMeter(this.audioCtx, this.masterAnalyser, { truePeak: true });
+      this.cue = new CueBus(this.audioCtx, this.masterAnalyser);
+      this.impulses = new ImpulseLibrary(this.audioCtx);
+      this.sampler = new Sampler(this.audioCtx, this.masterGain);
+      // register worklet processors in the background
+      const ctx = this.audioCtx;
+      this.workletsReady = supportsWorklets(ctx)
+        ? Promise.all([loadWorklet(ctx, PITCH_SHIFTER, PITCH_SHIFTER_SOURCE), loadWorklet(ctx, RECORDER, RECORDER_SOURCE), loadWorklet(ctx, SCRATCH, SCRATCH_SOURCE)]).then(() => {})
+        : Promise.reject(new Error('AudioWorklet not supported'));
+      this.workletsReady.catch(() => {});
       // create decks
-      this.decks = { A: new Deck(this, 'A'), B: new Deck(this, 'B') };
+      // all four decks exist; configureDecks decides which ones are in use
+      this.decks = { A: new Deck(this, 'A'), B: new Deck(this, 'B'), C: new Deck(this, 'C'), D: new Deck(this, 'D') };
+      this.applyCrossfade();
     }
     return this.audioCtx;
   }
@@ -372,64 +1177,507 @@ export default class AudioEngine {
     return await ctx.decodeAudioData(array);
   }
 
-  async loadDeckFromFile(deckId: 'A' | 'B', file: File) {
-    const buf = await this.decodeFile(file);
-    if (!this.decks) this.getOrCreateContext();
-    this.decks![deckId].loadBuffer(buf);
+  async loadDeckFromFile(deckId: DeckId, file: Blob) {
+    // a newer load on the same deck supersedes this one
+    const token = this.nextLoadToken(deckId);
+    const prepared = await this.prepareTrack(file);
+    if (token !== this.loadTokens[deckId]) return;
+    this.decks![deckId].loadBuffer(prepared.buffer, prepared.hash, prepared.cached);
   }
 
-  playDeck(deckId: 'A' | 'B') {
+  // decode a file without loading it on a deck (used to get queued tracks ready in the background)
+  async prepareTrack(file: Blob): Promise<PreparedTrack> {
+    const ctx = this.getOrCreateContext();
+    const array = await file.arrayBuffer();
+    // hash before decoding: decodeAudioData detaches the array buffer
+    const hash = await hashArrayBuffer(array);
+    // tracks the library has seen come with their analysis
+    let cached: AnalysisResult | null = null;
+    try {
+      cached = await getTrackAnalysis(hash);
+    } catch (e) {}
+    const buffer = await ctx.decodeAudioData(array);
+    return { file, buffer, hash, cached };
+  }
+
+  async loadPreparedTrack(deckId: DeckId, prepared: PreparedTrack) {
+    this.nextLoadToken(deckId);
+    await this.decks![deckId].loadBuffer(prepared.buffer, prepared.hash, prepared.cached);
+  }
+
+  private nextLoadToken(deckId: DeckId) {
+    return (this.loadTokens[deckId] = (this.loadTokens[deckId] ?? 0) + 1);
+  }
+
+  // per-deck queue of upcoming tracks; items are addressed by the ids in getDeckInfo().queue
+  async queueDeckTrack(deckId: DeckId, trackId: string) {
+    await this.queues[deckId].addTrack(trackId);
+  }
+
+  queueDeckFile(deckId: DeckId, file: File) {
+    this.queues[deckId].addFile(file);
+  }
+
+  removeQueuedTrack(deckId: DeckId, itemId: number) {
+    this.queues[deckId].remove(itemId);
+  }
+
+  moveQueuedTrack(deckId: DeckId, itemId: number, index: number) {
+    this.queues[deckId].move(itemId, index);
+  }
+
+  clearDeckQueue(deckId: DeckId) {
+    this.queues[deckId].clear();
+  }
+
+  // library ids of the queued tracks, in order (files queued from disk have none)
+  getQueuedTrackIds(deckId: DeckId) {
+    return this.queues[deckId].getTrackIds();
+  }
+
+  // returns false when the queue is empty; a playing deck loads the next track once it stops
+  loadNextTrack(deckId: DeckId) {
+    this.getOrCreateContext();
+    return this.queues[deckId].loadNext();
+  }
+
+  async loadDeckFromLibrary(deckId: DeckId, trackId: string) {
+    const file = await getTrackFile(trackId);
+    if (!file) {
+      console.warn('Track not found in library', trackId);
+      return;
+    }
+    await this.loadDeckFromFile(deckId, file);
+  }
+
+  // decode and fully analyze audio without loading it on a deck (library import)
+  async analyzeAudioData(data: ArrayBuffer) {
+    const ctx = this.getOrCreateContext();
+    const buffer = await ctx.decodeAudioData(data);
+    return { duration: buffer.duration, analysis: await collectAnalysis(buffer) };
+  }
+
+  // `at` (context time) schedules the start instead of starting right away
+  playDeck(deckId: DeckId, at?: number) {
     this.getOrCreateContext();
-    this.decks![deckId].play();
+    this.decks![deckId].play(at);
   }
 
-  pauseDeck(deckId: 'A' | 'B') {
+  pauseDeck(deckId: DeckId) {
     this.getOrCreateContext();
     this.decks![deckId].pause();
   }
 
-  seekDeck(deckId: 'A' | 'B', seconds: number) {
+  seekDeck(deckId: DeckId, seconds: number) {
     this.getOrCreateContext();
     this.decks![deckId].seek(seconds);
   }
 
-  setDeckVolume(deckId: 'A' | 'B', v: number) {
+  setDeckVolume(deckId: DeckId, v: number) {
     this.getOrCreateContext();
     this.decks![deckId].setVolume(v);
   }
 
-  setDeckEQ(deckId: 'A' | 'B', eq: EQSettings) {
+  setDeckEQ(deckId: DeckId, eq: EQSettings) {
     this.getOrCreateContext();
     this.decks![deckId].setEQ(eq);
   }
 
-  setDeckFX(deckId: 'A' | 'B', fx: Partial<FXSettings>) {
+  getDeckEQ(deckId: DeckId): EQSettings {
+    if (!this.decks) return { low: 0, mid: 0, high: 0 };
+    return this.decks[deckId].getEQ();
+  }
+
+  setDeckFilter(deckId: DeckId, amount: number) {
+    this.getOrCreateContext();
+    this.decks![deckId].setFilter(amount);
+  }
+
+  // trim in dB (±TRIM_RANGE_DB) ahead of the EQ
+  setDeckTrim(deckId: DeckId, db: number) {
+    this.getOrCreateContext();
+    this.decks![deckId].setTrim(db);
+  }
+
+  // auto-gain matches the deck's track to the target loudness on top of the trim
+  setDeckAutoGain(deckId: DeckId, on: boolean) {
+    this.getOrCreateContext();
+    this.decks![deckId].setAutoGain(on);
+  }
+
+  setTargetLoudness(lufs: number) {
+    this.targetLoudness = clamp(lufs, LOUDNESS_TARGETS[0], LOUDNESS_TARGETS[LOUDNESS_TARGETS.length - 1]);
+    if (this.decks) DECK_IDS.forEach((id) => this.decks![id].applyTrim());
+  }
+
+  getTargetLoudness() {
+    return this.targetLoudness;
+  }
+
+  // FX rack: units are addressed by the id addDeckEffect returns
+  addDeckEffect(deckId: DeckId, type: EffectType) {
+    this.getOrCreateContext();
+    return this.decks![deckId].addEffect(type);
+  }
+
+  removeDeckEffect(deckId: DeckId, unitId: number) {
+    this.getOrCreateContext();
+    this.decks![deckId].removeEffect(unitId);
+  }
+
+  moveDeckEffect(deckId: DeckId, unitId: number, index: number) {
+    this.getOrCreateContext();
+    this.decks![deckId].moveEffect(unitId, index);
+  }
+
+  setDeckEffectParam(deckId: DeckId, unitId: number, param: string, value: number) {
+    this.getOrCreateContext();
+    this.decks![deckId].setEffectParam(unitId, param, value);
+  }
+
+  setDeckEffectEnabled(deckId: DeckId, unitId: number, on: boolean) {
+    this.getOrCreateContext();
+    this.decks![deckId].setEffectEnabled(unitId, on);
+  }
+
+  // load an impulse-response file into a reverb unit; decoded files are cached across decks
+  async loadDeckEffectImpulse(deckId: DeckId, unitId: number, file: File) {
+    this.getOrCreateContext();
+    try {
+      const ir = await this.impulses!.loadFile(file);
+      this.decks![deckId].setEffectImpulse(unitId, ir);
+      return true;
+    } catch (e) {
+      console.warn('Could not load impulse response', e);
+      return false;
+    }
+  }
+
+  // beat-quantized loop; `beats` is one of LOOP_BEATS (1/8 to 32)
+  setDeckLoop(deckId: DeckId, on: boolean, beats?: number) {
+    this.getOrCreateContext();
+    this.decks![deckId].setLoop(on, beats);
+  }
+
+  halveDeckLoop(deckId: DeckId) {
+    this.getOrCreateContext();
+    this.decks![deckId].resizeLoop(0.5);
+  }
+
+  doubleDeckLoop(deckId: DeckId) {
+    this.getOrCreateContext();
+    this.decks![deckId].resizeLoop(2);
+  }
+
+  moveDeckLoop(deckId: DeckId, beats: number) {
+    this.getOrCreateContext();
+    this.decks![deckId].moveLoop(beats);
+  }
+
+  startDeckLoopRoll(deckId: DeckId, beats: number) {
+    this.getOrCreateContext();
+    this.decks![deckId].startRoll(beats);
+  }
+
+  stopDeckLoopRoll(deckId: DeckId) {
+    this.getOrCreateContext();
+    this.decks![deckId].stopRoll();
+  }
+
+  // returns the time step the scratch speed was derived from, null without a track
+  jogDeck(deckId: DeckId, deltaSec: number, dt?: number) {
+    this.getOrCreateContext();
+    return this.decks![deckId].jog(deltaSec, dt);
+  }
+
+  // `duration` defaults to the deck's stop time (setDeckStopTime)
+  brakeDeck(deckId: DeckId, duration?: number) {
+    this.getOrCreateContext();
+    this.decks![deckId].brake(duration);
+  }
+
+  spinbackDeck(deckId: DeckId, duration?: number) {
+    this.getOrCreateContext();
+    this.decks![deckId].spinback(duration);
+  }
+
+  setDeckReverse(deckId: DeckId, on: boolean) {
+    this.getOrCreateContext();
+    this.decks![deckId].setReverse(on);
+  }
+
+  setDeckStopTime(deckId: DeckId, seconds: number) {
+    this.getOrCreateContext();
+    this.decks![deckId].setStopTime(seconds);
+  }
+
+  // tempo offset in percent, clamped to the deck's current range
+  setDeckTempo(deckId: DeckId, pct: number) {
+    this.getOrCreateContext();
+    const deck = this.decks![deckId];
+    // moving the fader of a synced deck takes it out of sync
+    deck.unsync();
+    deck.setTempo(pct);
+    this.updateFollowers(deck);
+  }
+
+  setDeckTempoRange(deckId: DeckId, range: TempoRange) {
+    this.getOrCreateContext();
+    const deck = this.decks![deckId];
+    deck.setTempoRange(range);
+    this.updateFollowers(deck);
+  }
+
+  // 2 or 4 decks; decks that drop out of use are paused but keep their track
+  configureDecks(count: DeckCount) {
+    this.deckCount = count;
+    if (!this.decks) return;
+    DECK_IDS.slice(count).forEach((id) => {
+      this.decks![id].pause();
+      this.decks![id].unsync();
+    });
+  }
+
+  getDeckCount() {
+    return this.deckCount;
+  }
+
+  getDeckIds() {
+    return DECK_IDS.slice(0, this.deckCount);
+  }
+
+  // the deck another one syncs to and compares keys with: another active deck with a tempo, preferring one that is playing
+  getReferenceDeck(deckId: DeckId): DeckId | null {
+    if (!this.decks) return null;
+    const others = this.getDeckIds().filter((id) => id !== deckId);
+    const withTempo = others.filter((id) => this.decks![id].bpm);
+    return withTempo.find((id) => this.decks![id].playing) ?? withTempo[0] ?? others[0] ?? null;
+  }
+
+  // match the deck's tempo and beat phase to the other deck and keep it locked to that deck's tempo
+  syncDeck(deckId: DeckId) {
+    this.getOrCreateContext();
+    const leaderId = this.getReferenceDeck(deckId);
+    if (!leaderId) return false;
+    return this.syncDeckTo(deckId, leaderId);
+  }
+
+  // sync to a given deck rather than the reference deck (automix follows the deck it mixes out of)
+  syncDeckTo(deckId: DeckId, leaderId: DeckId) {
+    this.getOrCreateContext();
+    const deck = this.decks![deckId];
+    const leader = this.decks![leaderId];
+    // the leader cannot itself follow this deck
+    if (leader.syncLeader === deck) leader.unsync();
+    const ok = deck.syncTo(leader);
+    if (!ok) console.warn('Sync needs a detected tempo on both decks within ±50%', deckId);
+    return ok;
+  }
+
+  unsyncDeck(deckId: DeckId) {
+    this.getOrCreateContext();
+    this.decks![deckId].unsync();
+  }
+
+  updateFollowers(leader: Deck) {
+    if (!this.decks) return;
+    Object.values(this.decks).forEach((d) => {
+      if (d.syncLeader === leader) d.followLeader();
+    });
+  }
+
+  // master tempo: keep pitch constant while the tempo changes
+  setDeckKeyLock(deckId: DeckId, on: boolean) {
+    this.getOrCreateContext();
+    this.decks![deckId].setKeyLock(on);
+  }
+
+  // store a hot cue (0..7) at `time`, or at the playhead when omitted
+  setHotCue(deckId: DeckId, index: number, time?: number) {
     this.getOrCreateContext();
-    this.decks![deckId].setFX(fx);
+    this.decks![deckId].setHotCue(index, time);
   }
 
-  setDeckLoop(deckId: 'A' | 'B', on: boolean, lengthSec?: number) {
+  jumpToHotCue(deckId: DeckId, index: number) {
     this.getOrCreateContext();
-    this.decks![deckId].setLoop(on, lengthSec);
+    this.decks![deckId].jumpToHotCue(index);
   }
 
-  jogDeck(deckId: 'A' | 'B', deltaSec: number) {
+  deleteHotCue(deckId: DeckId, index: number) {
     this.getOrCreateContext();
-    this.decks![deckId].jog(deltaSec);
+    this.decks![deckId].deleteHotCue(index);
   }
 
   setCrossfade(x: number) {
-    // equal-power crossfade: leftGain = cos(x*pi/2), rightGain = cos((1-x)*pi/2)
+    this.crossfadeX = clamp(x, 0, 1);
+    this.applyCrossfade();
+  }
+
+  setCrossfaderCurve(curve: CrossfaderCurve) {
+    this.xfaderCurve = curve;
+    this.applyCrossfade();
+  }
+
+  // cut-in distance of the scratch curve, as a fraction of fader travel
+  setCrossfaderCutIn(distance: number) {
+    this.xfaderCutIn = clamp(distance, CUT_IN_MIN, CUT_IN_MAX);
+    this.applyCrossfade();
+  }
+
+  // hamster switch: reverse the fader direction
+  setHamster(on: boolean) {
+    this.hamster = on;
+    this.applyCrossfade();
+  }
+
+  getCrossfaderSettings() {
+    return { position: this.crossfadeX, curve: this.xfaderCurve, cutIn: this.xfaderCutIn, hamster: this.hamster };
+  }
+
+  setDeckCrossfaderAssign(deckId: DeckId, side: CrossfaderSide) {
+    this.xfaderAssign[deckId] = side;
+    this.applyCrossfade();
+  }
+
+  getDeckCrossfaderAssign(deckId: DeckId) {
+    return this.xfaderAssign[deckId];
+  }
+
+  private applyCrossfade() {
     if (!this.decks) return;
-    const t = clamp(x, 0, 1);
-    const leftGain = Math.cos(t * Math.PI * 0.5);
-    const rightGain = Math.cos((1 - t) * Math.PI * 0.5);
-    // use Deck API
-    (this.decks.A as any).setGainValue?.(leftGain);
-    (this.decks.B as any).setGainValue?.(rightGain);
+    const { left, right } = crossfadeGains(this.crossfadeX, this.xfaderCurve, this.xfaderCutIn, this.hamster);
+    const gains: Record<CrossfaderSide, number> = { left, right, thru: 1 };
+    DECK_IDS.forEach((id) => this.decks![id].setGainValue(gains[this.xfaderAssign[id]]));
+  }
+
+  setAutomix(on: boolean) {
+    this.getOrCreateContext();
+    this.automix.setEnabled(on);
   }
 
-  getCurrentTime(deckId: 'A' | 'B') {
+  setAutomixStyle(style: AutomixStyle) {
+    this.automix.setStyle(style);
+  }
+
+  // transition length in bars
+  setAutomixBars(bars: number) {
+    this.automix.setBars(bars);
+  }
+
+  // let automix take over when the camera stops seeing hands
+  setAutomixAwayTakeover(on: boolean) {
+    this.automix.setAwayTakeover(on);
+  }
+
+  automixNow() {
+    this.getOrCreateContext();
+    this.automix.mixNow();
+  }
+
+  getAutomixState() {
+    return this.automix.getState();
+  }
+
+  reportHandPresence(present: boolean) {
+    if (this.audioCtx) this.automix.reportPresence(present);
+  }
+
+  setDeckPfl(deckId: DeckId, on: boolean) {
+    this.getOrCreateContext();
+    this.decks![deckId].setPfl(on);
+  }
+
+  // headphone blend: 0 = cue only, 1 = master only
+  setCueMix(x: number) {
+    this.getOrCreateContext();
+    this.cue!.setMix(x);
+  }
+
+  setCueVolume(v: number) {
+    this.getOrCreateContext();
+    this.cue!.setVolume(v);
+  }
+
+  // split cue: headphone mix on the left channel, master on the right of the main output
+  setSplitCue(on: boolean) {
+    this.getOrCreateContext();
+    this.cue!.setSplit(on);
+  }
+
+  // output device id from enumerateDevices() for the headphone mix, or null to disable it
+  async setHeadphoneDevice(deviceId: string | null) {
+    this.getOrCreateContext();
+    await this.cue!.setDevice(deviceId);
+  }
+
+  getCueState() {
+    if (!this.cue) return { mix: 0.5, volume: 0.8, split: false, deviceId: null };
+    return this.cue.getState();
+  }
+
+  async loadSamplerPad(index: number, file: File) {
+    const buffer = await this.decodeFile(file);
+    this.sampler!.load(index, buffer, file.name.replace(/\.[^.]+$/, ''));
+  }
+
+  triggerSamplerPad(index: number) {
+    this.getOrCreateContext();
+    this.sampler!.trigger(index);
+  }
+
+  stopSamplerPad(index: number) {
+    this.getOrCreateContext();
+    this.sampler!.stop(index);
+  }
+
+  setSamplerPad(index: number, settings: Partial<PadSettings>) {
+    this.getOrCreateContext();
+    this.sampler!.set(index, settings);
+  }
+
+  clearSamplerPad(index: number) {
+    this.getOrCreateContext();
+    this.sampler!.clear(index);
+  }
+
+  setSamplerVolume(v: number) {
+    this.getOrCreateContext();
+    this.sampler!.setVolume(v);
+  }
+
+  getSamplerState() {
+    if (!this.sampler) return { volume: 1, pads: null };
+    return { volume: this.sampler.getVolume(), pads: this.sampler.getState() };
+  }
+
+  // record the master output; `compressed` also captures a MediaRecorder file alongside the PCM
+  async startRecording(opts?: { compressed?: boolean }) {
+    const ctx = this.getOrCreateContext();
+    await this.workletsReady;
+    if (!this.recorder) this.recorder = new MixRecorder(ctx, this.masterAnalyser!);
+    this.recorder.start(opts);
+  }
+
+  pauseRecording() {
+    this.recorder?.pause();
+  }
+
+  resumeRecording() {
+    this.recorder?.resume();
+  }
+
+  // resolves with the finished recording (export with `toWav(16 | 24)` or `compressed`)
+  async stopRecording() {
+    if (!this.recorder) return null;
+    return await this.recorder.stop();
+  }
+
+  getRecordingStatus() {
+    if (!this.recorder) return { state: 'idle' as const, elapsed: 0, level: 0 };
+    return { state: this.recorder.getState(), elapsed: this.recorder.getElapsed(), level: this.recorder.getLevel() };
+  }
+
+  getCurrentTime(deckId: DeckId) {
     if (!this.decks) return 0;
     return this.decks[deckId].getPosition();
   }
@@ -450,29 +1698,115 @@ export default class AudioEngine {
     return Math.min(1, rms * 3);
   }
 
-  getDeckInfo(deckId: 'A' | 'B') {
-    if (!this.decks) return { peaks: null, rms: null, duration: null };
+  // per-deck pre-fader and post-fader readings with peak hold and latched clip flags
+  getDeckMeters(deckId: DeckId) {
+    if (!this.decks) return null;
+    return this.decks[deckId].readMeters();
+  }
+
+  // master reading after the limiter, including true peak (dBTP) since the last reset
+  getMasterMeter() {
+    if (!this.masterMeter) return null;
+    return this.masterMeter.read();
+  }
+
+  resetClipIndicators() {
+    this.masterMeter?.reset();
+    if (this.decks) Object.values(this.decks).forEach((d) => d.resetMeters());
+  }
+
+  setMasterLimiter(on: boolean) {
+    this.getOrCreateContext();
+    this.limiterOn = on;
+    this.routeLimiter();
+  }
+
+  isMasterLimiterOn() {
+    return this.limiterOn;
+  }
+
+  private routeLimiter() {
+    if (!this.masterGain || !this.limiter || !this.masterAnalyser) return;
+    try {
+      this.masterGain.disconnect();
+    } catch (e) {}
+    this.masterGain.connect(this.limiterOn ? this.limiter : this.masterAnalyser);
+  }
+
+  getDeckInfo(deckId: DeckId) {
+    if (!this.decks) {
+      return {
+        peaks: null,
+        loudness: null,
+        duration: null,
+        bpm: null,
+        downbeat: null,
+        beatgrid: null,
+        key: null,
+        bands: null,
+        tempo: 0,
+        tempoRange: 8 as TempoRange,
+        keyLock: false,
+        rate: 1,
+        synced: false,
+        syncLeader: null as DeckId | null,
+        loop: null,
+        loopBeats: 4,
+        rolling: false,
+        hotCues: emptyCues(),
+        trackId: null as string | null,
+        volume: 1,
+        eq: { low: 0, mid: 0, high: 0 } as EQSettings,
+        filter: 0,
+        trim: 0,
+        autoGain: false,
+        gain: 0,
+        pfl: false,
+        fx: [] as FxUnitState[],
+        xfader: this.xfaderAssign[deckId],
+        reverse: false,
+        stopTime: 1,
+        queue: this.queues[deckId].getState(),
+        analysisProgress: 1,
+        isPlaying: false
+      };
+    }
     const d = this.decks[deckId] as any;
+    const t = this.decks[deckId].getTempo();
+    const l = this.decks[deckId].getLoop();
     return {
       peaks: d.peaks ?? null,
-      rms: d.rms ?? null,
+      loudness: (d.loudness ?? null) as number | null,
       duration: d.duration ?? null,
-      isPlaying: d.isPlaying ?? false
+      bpm: d.bpm ?? null,
+      downbeat: d.downbeat ?? null,
+      beatgrid: d.beatgrid ?? null,
+      key: (d.key ?? null) as KeyInfo | null,
+      bands: (d.bands ?? null) as BandWaveform | null,
+      tempo: t.tempo,
+      tempoRange: t.range,
+      keyLock: t.keyLock,
+      rate: t.rate,
+      synced: this.decks[deckId].isSynced(),
+      syncLeader: this.decks[deckId].syncLeader?.id ?? null,
+      loop: l.loop,
+      loopBeats: l.beats,
+      rolling: l.rolling,
+      hotCues: this.decks[deckId].hotCues,
+      trackId: this.decks[deckId].trackHash,
+      volume: this.decks[deckId].getVolume(),
+      eq: this.decks[deckId].getEQ(),
+      filter: this.decks[deckId].getFilter(),
+      ...this.decks[deckId].getTrim(),
+      pfl: this.decks[deckId].getPfl(),
+      fx: this.decks[deckId].getEffects(),
+      xfader: this.xfaderAssign[deckId],
+      reverse: this.decks[deckId].getReverse(),
+      stopTime: this.decks[deckId].getStopTime(),
+      queue: this.queues[deckId].getState(),
+      analysisProgress: this.decks[deckId].analysisProgress,
+      isPlaying: this.decks[deckId].playing
     };
   }
-
-  createReverbImpulse(duration = 1, decay = 2) {
-    const ctx = this.getOrCreateContext();
-    const rate = ctx.sampleRate;
-    const length = rate * duration;
-    const impulse = ctx.createBuffer(2, length, rate);
-    for (let i = 0; i < 2; i++) {
-      const channel = impulse.getChannelData(i);
-      for (let j = 0; j < length; j++) {
-        channel[j] = (Math.random() * 2 - 1) * Math.pow(1 - j / length, decay);
-      }
-    }
-    return impulse;
-  }
 }
 
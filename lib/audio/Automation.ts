@@ -0,0 +1,440 @@
+/**
+ * Automation: records every control change applied to the engine as a timestamped event list and
+ * plays it back on the audio clock.
+ * The engine's control methods are wrapped once, so changes are captured whatever triggered them
+ * (gestures, mouse, keyboard or automix); calls the engine makes to itself while handling one are
+ * not recorded again. A take starts from a session snapshot, which playback restores first so the
+ * events land on the same tracks with the same mixer state; decks that were playing start together
+ * with the take. Tracks loaded from files during a take are added to the library, which replays them.
+ * Event times are read from the audio clock, so they resolve to one render quantum (128 frames).
+ * Playback applies each event once the audio clock reaches it; deck starts are scheduled ahead at
+ * their exact context time, jog events carry the time step their scratch speed was measured over,
+ * and a deck's events after a track load wait for the replayed load to finish while the other decks
+ * and the mixer carry on.
+ */
+
+import { captureSession, isRecord, parseSession } from './Session';
+import type { Session } from './Session';
+import type AudioEngine from './AudioEngine';
+import type { DeckId, PreparedTrack } from './AudioEngine';
+import { DECK_IDS } from './AudioEngine';
+import { getTrack } from '../library/TrackStore';
+import { importTracks } from '../library/TrackImport';
+
+// engine methods whose calls are recorded. Loading a sampler pad (loadSamplerPad) or an impulse
+// response (loadDeckEffectImpulse) is not: both take an audio file, which an exported take can't
+// carry, so pads and reverb IRs play back as they are loaded when the take starts.
+export const AUTOMATED_METHODS = [
+  'playDeck',
+  'pauseDeck',
+  'seekDeck',
+  'jogDeck',
+  'brakeDeck',
+  'spinbackDeck',
+  'setDeckReverse',
+  'setDeckStopTime',
+  'setDeckVolume',
+  'setDeckEQ',
+  'setDeckFilter',
+  'setDeckTrim',
+  'setDeckAutoGain',
+  'setDeckPfl',
+  'setDeckCrossfaderAssign',
+  'setDeckTempo',
+  'setDeckTempoRange',
+  'setDeckKeyLock',
+  'syncDeck',
+  'syncDeckTo',
+  'unsyncDeck',
+  'setDeckLoop',
+  'halveDeckLoop',
+  'doubleDeckLoop',
+  'moveDeckLoop',
+  'startDeckLoopRoll',
+  'stopDeckLoopRoll',
+  'setHotCue',
+  'jumpToHotCue',
+  'deleteHotCue',
+  'addDeckEffect',
+  'removeDeckEffect',
+  'moveDeckEffect',
+  'setDeckEffectParam',
+  'setDeckEffectEnabled',
+  'setCrossfade',
+  'setCrossfaderCurve',
+  'setCrossfaderCutIn',
+  'setHamster',
+  'setMasterLimiter',
+  'setTargetLoudness',
+  'setCueMix',
+  'setCueVolume',
+  'setSplitCue',
+  'triggerSamplerPad',
+  'stopSamplerPad',
+  'setSamplerPad',
+  'clearSamplerPad',
+  'setSamplerVolume',
+  'configureDecks',
+  'loadDeckFromLibrary'
+] as const;
+
+export type AutomatedMethod = (typeof AUTOMATED_METHODS)[number];
+
+// track loads from files or the queue are recorded as library loads of the same track; the file is
+// added to the library if it isn't in it yet
+const TRACK_LOADS = ['loadDeckFromFile', 'loadPreparedTrack'] as const;
+
+// FX units are addressed by rack ids, which differ between the recording and the playback
+const FX_UNIT_METHODS: AutomatedMethod[] = ['removeDeckEffect', 'moveDeckEffect', 'setDeckEffectParam', 'setDeckEffectEnabled'];
+
+export type AutomationEvent = {
+  time: number; // seconds from the start of the take
+  method: AutomatedMethod;
+  args: unknown[];
+  result?: number | null; // unit id returned by addDeckEffect
+  done?: number; // track loads: when the track was ready, in seconds from the start of the take
+};
+
+export type AutomationTake = {
+  id: number;
+  name: string;
+  recordedAt: number;
+  duration: number;
+  start: Session;
+  // decks playing when recording started
+  playing: DeckId[];
+  // FX unit ids on each deck when recording started, in rack order
+  fxIds: Partial<Record<DeckId, number[]>>;
+  events: AutomationEvent[];
+};
+
+export type AutomationState = {
+  recording: boolean;
+  playing: number | null; // id of the take being played
+  elapsed: number;
+  events: number; // events recorded or played so far
+  last: AutomationEvent | null;
+  takes: Array<{ id: number; name: string; recordedAt: number; duration: number; events: number }>;
+};
+
+type Method = (...args: unknown[]) => unknown;
+
+// the events of one deck, or of the mixer (events not addressed to a deck), in take order
+type Lane = {
+  events: number[]; // indexes into the take's events
+  index: number;
+  // how much later than recorded the lane runs after slow track loads
+  delay: number;
+  // while a replayed load is in flight, the take time its track was ready when recording
+  loading: number | null;
+};
+
+type Playback = {
+  take: AutomationTake;
+  // context time of the take's start
+  startTime: number;
+  lanes: Lane[];
+  fxMap: Partial<Record<DeckId, Map<number, number>>>;
+};
+
+// how far ahead deck starts are scheduled; playback itself begins this far from now
+const LOOKAHEAD = 0.1;
+
+function deckOf(event: AutomationEvent) {
+  const id = event.args[0];
+  return typeof id === 'string' && (DECK_IDS as readonly string[]).includes(id) ? (id as DeckId) : null;
+}
+
+function isEvent(v: unknown): v is AutomationEvent {
+  return (
+    isRecord(v) &&
+    typeof v.time === 'number' &&
+    isFinite(v.time) &&
+    typeof v.method === 'string' &&
+    (AUTOMATED_METHODS as readonly string[]).includes(v.method) &&
+    Array.isArray(v.args)
+  );
+}
+
+export default class Automation {
+  private originals = {} as Record<AutomatedMethod | (typeof TRACK_LOADS)[number], Method>;
+  private takes: AutomationTake[] = [];
+  private nextId = 1;
+  // nesting depth of wrapped calls; only the outermost call is recorded
+  private depth = 0;
+  private recording: { take: AutomationTake; startTime: number } | null = null;
+  private playback: Playback | null = null;
+  private timer: number | null = null;
+  private last: AutomationEvent | null = null;
+  // library imports of tracks loaded from files while recording, one at a time
+  private importing: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly engine: AudioEngine) {
+    const target = engine as unknown as Record<string, Method>;
+    AUTOMATED_METHODS.forEach((method) => {
+      const original = target[method].bind(engine);
+      this.originals[method] = original;
+      target[method] = (...args) => this.call(method, original, args);
+    });
+    TRACK_LOADS.forEach((method) => {
+      const original = target[method].bind(engine);
+      this.originals[method] = original;
+      target[method] = (...args) => this.callLoad(method, original, args);
+    });
+  }
+
+  startRecording() {
+    if (this.recording) return;
+    this.stop();
+    const ctx = this.engine.getOrCreateContext();
+    const fxIds: Partial<Record<DeckId, number[]>> = {};
+    DECK_IDS.forEach((id) => (fxIds[id] = this.engine.getDeckInfo(id).fx.map((u) => u.id)));
+    const id = this.nextId++;
+    const playing = DECK_IDS.filter((deck) => this.engine.getDeckInfo(deck).isPlaying);
+    const take = { id, name: `Take ${id}`, recordedAt: Date.now(), duration: 0, start: captureSession(this.engine), playing, fxIds, events: [] };
+    this.recording = { take, startTime: ctx.currentTime };
+    this.last = null;
+  }
+
+  stopRecording() {
+    const rec = this.recording;
+    if (!rec) return null;
+    this.recording = null;
+    rec.take.duration = this.elapsed(rec.startTime);
+    // track loads are recorded when they finish; order by call time
+    rec.take.events.sort((a, b) => a.time - b.time);
+    this.takes.push(rec.take);
+    return rec.take.id;
+  }
+
+  // the take's start state must be restored first (see restoreSession)
+  play(takeId: number) {
+    const take = this.getTake(takeId);
+    if (!take || this.recording) return false;
+    this.stop();
+    const fxMap: Partial<Record<DeckId, Map<number, number>>> = {};
+    DECK_IDS.forEach((id) => {
+      const now = this.engine.getDeckInfo(id).fx.map((u) => u.id);
+      fxMap[id] = new Map((take.fxIds[id] ?? []).map((unit, i) => [unit, now[i]] as [number, number]).filter(([, unit]) => unit !== undefined));
+    });
+    const lanes = new Map<DeckId | null, Lane>();
+    take.events.forEach((event, i) => {
+      const deck = deckOf(event);
+      if (!lanes.has(deck)) lanes.set(deck, { events: [], index: 0, delay: 0, loading: null });
+      lanes.get(deck)!.events.push(i);
+    });
+    const pb: Playback = { take, startTime: this.engine.getOrCreateContext().currentTime + LOOKAHEAD, lanes: Array.from(lanes.values()), fxMap };
+    this.playback = pb;
+    this.last = null;
+    take.playing.forEach((deck) => this.originals.playDeck(deck, pb.startTime));
+    this.tick();
+    return true;
+  }
+
+  // library ids of the take's tracks (its start state and the tracks it loads) missing from the library
+  async missingTracks(takeId: number) {
+    const take = this.getTake(takeId);
+    if (!take) return [];
+    // tracks loaded from files while recording may still be on their way into the library
+    await this.importing;
+    const ids = new Set<string>();
+    DECK_IDS.forEach((deck) => {
+      const track = take.start.decks[deck]?.track;
+      if (track) ids.add(track);
+    });
+    take.events.forEach((e) => {
+      if (e.method === 'loadDeckFromLibrary' && typeof e.args[1] === 'string') ids.add(e.args[1]);
+    });
+    const found = await Promise.all(Array.from(ids, async (id) => ((await getTrack(id)) ? null : id)));
+    return found.filter((id): id is string => id !== null);
+  }
+
+  stop() {
+    this.playback = null;
+    this.clearTimer();
+  }
+
+  getTake(takeId: number) {
+    return this.takes.find((t) => t.id === takeId) ?? null;
+  }
+
+  removeTake(takeId: number) {
+    if (this.playback?.take.id === takeId) this.stop();
+    this.takes = this.takes.filter((t) => t.id !== takeId);
+  }
+
+  exportTake(takeId: number) {
+    const take = this.getTake(takeId);
+    return take ? JSON.stringify(take) : null;
+  }
+
+  // adds a take exported with exportTake; throws on anything that isn't one
+  importTake(json: string) {
+    const raw: unknown = JSON.parse(json);
+    if (!isRecord(raw) || !Array.isArray(raw.events)) throw new Error('Not a GestureDJ automation take');
+    const events = (raw.events as unknown[]).filter(isEvent).sort((a, b) => a.time - b.time);
+    const units = raw.fxIds;
+    const fxIds: Partial<Record<DeckId, number[]>> = {};
+    if (isRecord(units)) {
+      DECK_IDS.forEach((deck) => {
+        const ids = units[deck];
+        if (Array.isArray(ids)) fxIds[deck] = ids.filter((u): u is number => typeof u === 'number');
+      });
+    }
+    const id = this.nextId++;
+    this.takes.push({
+      id,
+      name: typeof raw.name === 'string' ? raw.name : `Take ${id}`,
+      recordedAt: typeof raw.recordedAt === 'number' ? raw.recordedAt : Date.now(),
+      duration: typeof raw.duration === 'number' ? raw.duration : events[events.length - 1]?.time ?? 0,
+      start: parseSession(JSON.stringify(raw.start)),
+      playing: Array.isArray(raw.playing) ? DECK_IDS.filter((deck) => (raw.playing as unknown[]).includes(deck)) : [],
+      fxIds,
+      events
+    });
+    return id;
+  }
+
+  getState(): AutomationState {
+    const rec = this.recording;
+    const pb = this.playback;
+    return {
+      recording: !!rec,
+      playing: pb?.take.id ?? null,
+      elapsed: rec ? this.elapsed(rec.startTime) : pb ? this.elapsed(pb.startTime) : 0,
+      events: rec ? rec.take.events.length : pb ? pb.lanes.reduce((n, lane) => n + lane.index, 0) : 0,
+      last: this.last,
+      takes: this.takes.map(({ id, name, recordedAt, duration, events }) => ({ id, name, recordedAt, duration, events: events.length }))
+    };
+  }
+
+  private elapsed(startTime: number) {
+    return Math.max(0, (this.engine.audioCtx?.currentTime ?? startTime) - startTime);
+  }
+
+  private call(method: AutomatedMethod, original: Method, args: unknown[]) {
+    const rec = this.recording;
+    if (!rec || this.depth > 0) return original(...args);
+    const time = this.elapsed(rec.startTime);
+    this.depth++;
+    let result: unknown;
+    try {
+      result = original(...args);
+    } finally {
+      this.depth--;
+    }
+    const event: AutomationEvent = { time, method, args: structuredClone(args) };
+    if (method === 'addDeckEffect') event.result = (result as number | null) ?? null;
+    // scratch speed comes from the time between jog calls; replay reuses the step measured here
+    if (method === 'jogDeck' && typeof result === 'number') event.args[2] = result;
+    // library loads are recorded from the file load they lead to
+    if (method !== 'loadDeckFromLibrary') this.push(event);
+    return result;
+  }
+
+  private async callLoad(method: (typeof TRACK_LOADS)[number], original: Method, args: unknown[]) {
+    const rec = this.recording;
+    const deckId = args[0] as DeckId;
+    const time = rec ? this.elapsed(rec.startTime) : 0;
+    await original(...args);
+    const track = this.engine.getDeckInfo(deckId).trackId;
+    // a load that finished after recording stopped, or was superseded, is not part of the take
+    if (!rec || this.recording !== rec || !track) return;
+    this.push({ time, method: 'loadDeckFromLibrary', args: [deckId, track], done: this.elapsed(rec.startTime) });
+    const file = method === 'loadDeckFromFile' ? args[1] : (args[1] as PreparedTrack).file;
+    if (file instanceof File) this.importing = this.importing.then(() => this.addToLibrary(track, file));
+  }
+
+  private async addToLibrary(track: string, file: File) {
+    try {
+      if (!(await getTrack(track))) await importTracks([file], (data) => this.engine.analyzeAudioData(data));
+    } catch (e) {
+      console.warn('Could not add the take track to the library', file.name, e);
+    }
+  }
+
+  private push(event: AutomationEvent) {
+    this.recording!.take.events.push(event);
+    this.last = event;
+  }
+
+  private clearTimer() {
+    if (this.timer === null) return;
+    clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private wake(seconds: number) {
+    this.clearTimer();
+    this.timer = window.setTimeout(() => this.tick(), seconds * 1000);
+  }
+
+  // applies the events the audio clock has reached, in take order, then sleeps until the next one.
+  // A lane waiting for its track load is skipped; the load finishing resumes it
+  private tick() {
+    this.timer = null;
+    const pb = this.playback;
+    const ctx = this.engine.audioCtx;
+    if (!pb || !ctx) return;
+    // the audio clock advances one render quantum at a time
+    const slack = 128 / ctx.sampleRate;
+    const events = pb.take.events;
+    for (;;) {
+      let next: { lane: Lane; i: number; due: number; fireAt: number } | null = null;
+      for (const lane of pb.lanes) {
+        const i = lane.events[lane.index];
+        if (i === undefined || (lane.loading !== null && events[i].time >= lane.loading)) continue;
+        const due = pb.startTime + lane.delay + events[i].time;
+        const fireAt = events[i].method === 'playDeck' ? due - LOOKAHEAD : due;
+        if (!next || fireAt < next.fireAt || (fireAt === next.fireAt && i < next.i)) next = { lane, i, due, fireAt };
+      }
+      if (!next) break;
+      if (next.fireAt > ctx.currentTime + slack) return this.wake(next.fireAt - ctx.currentTime);
+      next.lane.index++;
+      this.apply(pb, next.lane, events[next.i], next.due);
+    }
+    if (pb.lanes.some((lane) => lane.loading !== null)) return;
+    const end = pb.startTime + pb.take.duration + Math.max(0, ...pb.lanes.map((lane) => lane.delay));
+    if (end > ctx.currentTime + slack) this.wake(end - ctx.currentTime);
+    else this.stop();
+  }
+
+  private apply(pb: Playback, lane: Lane, event: AutomationEvent, due: number) {
+    const args = [...event.args];
+    const deckId = args[0] as DeckId;
+    if (FX_UNIT_METHODS.includes(event.method)) {
+      const unit = pb.fxMap[deckId]?.get(args[1] as number);
+      // the unit was never created on this run (e.g. the rack was full)
+      if (unit === undefined) return;
+      args[1] = unit;
+    }
+    // deck starts are scheduled for the exact moment they were recorded at
+    if (event.method === 'playDeck') args[1] = due;
+    this.last = event;
+    try {
+      const result = this.originals[event.method](...args);
+      if (event.method === 'addDeckEffect' && typeof event.result === 'number' && typeof result === 'number') pb.fxMap[deckId]?.set(event.result, result);
+      if (!(result instanceof Promise)) return;
+      if (event.method === 'loadDeckFromLibrary') this.awaitLoad(pb, lane, event.done ?? event.time, result);
+      else result.catch((e) => console.warn('Automation event failed', event.method, e));
+    } catch (e) {
+      console.warn('Automation event failed', event.method, e);
+    }
+  }
+
+  // holds back the deck's later events until its track is loaded; a load slower than the recorded one
+  // delays the rest of that deck's events by the difference
+  private awaitLoad(pb: Playback, lane: Lane, ready: number, load: Promise<unknown>) {
+    lane.loading = ready;
+    load
+      .catch((e) => console.warn('Automation event failed', 'loadDeckFromLibrary', e))
+      .finally(() => {
+        if (this.playback !== pb || lane.loading !== ready) return;
+        lane.loading = null;
+        const ctx = this.engine.audioCtx!;
+        lane.delay += Math.max(0, ctx.currentTime - pb.startTime - lane.delay - ready);
+        this.clearTimer();
+        this.tick();
+      });
+  }
+}
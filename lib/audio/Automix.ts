@@ -0,0 +1,306 @@
+/**
+ * Automix: hands the set from the playing deck to a loaded deck on the other crossfader side.
+ * While enabled it watches the on-air deck; when the time left in the track drops to the transition
+ * length (a number of bars at the deck's tempo) it starts and syncs the other deck on the next beat
+ * and moves the crossfader across in one of the transition styles.
+ * "Away" mode engages automix by itself when the camera has not seen a hand for a while.
+ */
+
+import { clamp } from '../utils/clamp';
+import { beatLength, beatPhase } from './Beatgrid';
+import { crossfadeGains } from './CrossfaderCurves';
+import { MIX_PARAM } from './fx/EffectUnit';
+import type AudioEngine from './AudioEngine';
+import type { DeckId, EQSettings } from './AudioEngine';
+
+export type AutomixStyle = 'blend' | 'bassSwap' | 'echoOut';
+
+export const AUTOMIX_STYLES: Array<{ style: AutomixStyle; label: string }> = [
+  { style: 'blend', label: 'Blend' },
+  { style: 'bassSwap', label: 'Bass swap' },
+  { style: 'echoOut', label: 'Echo out' }
+];
+
+// transition lengths in bars (4 beats)
+export const AUTOMIX_BARS = [2, 4, 8, 16, 32];
+
+export type AutomixState = {
+  enabled: boolean;
+  away: boolean; // engaged because no hands were seen
+  awayTakeover: boolean;
+  style: AutomixStyle;
+  bars: number;
+  mixing: boolean;
+  from: DeckId | null;
+  to: DeckId | null;
+  progress: number; // 0..1 through the current transition
+  startsIn: number | null; // seconds until the next transition, when one is lined up
+};
+
+type Transition = {
+  from: DeckId;
+  to: DeckId;
+  style: AutomixStyle;
+  start: number; // context time
+  length: number; // seconds
+  fromX: number;
+  toX: number;
+  eq: { from: EQSettings; to: EQSettings };
+  echo: number | null; // echo-out unit on the outgoing deck
+  swapped: boolean;
+  cut: boolean;
+  progress: number;
+};
+
+const TICK_MS = 50;
+const FALLBACK_BPM = 120;
+// no hands for this long hands the set to automix when away takeover is on
+const AWAY_MS = 20000;
+// low EQ setting (dB) for the deck whose bass is held out during a bass swap
+const BASS_CUT = -12;
+// echo-out: when the echo goes on and when the outgoing deck stops, as a fraction of the transition
+const ECHO_AT = 0.75;
+const ECHO_CUT_AT = 0.875;
+
+export default class Automix {
+  private enabled = false;
+  private awayTakeover = false;
+  private away = false;
+  private lastSeen = Date.now();
+  private style: AutomixStyle = 'blend';
+  private bars = 8;
+  private timer: number | null = null;
+  private transition: Transition | null = null;
+  private next: { from: DeckId; to: DeckId; startsIn: number } | null = null;
+
+  constructor(private readonly engine: AudioEngine) {}
+
+  setEnabled(on: boolean) {
+    this.enabled = on;
+    if (!on) {
+      this.away = false;
+      this.cancel();
+    }
+    this.schedule();
+  }
+
+  setStyle(style: AutomixStyle) {
+    this.style = style;
+  }
+
+  setBars(bars: number) {
+    if (AUTOMIX_BARS.includes(bars)) this.bars = bars;
+  }
+
+  setAwayTakeover(on: boolean) {
+    this.awayTakeover = on;
+    if (!on) this.away = false;
+    this.lastSeen = Date.now();
+    this.schedule();
+  }
+
+  // called for every camera frame; a returning performer takes over again once the running transition ends
+  reportPresence(present: boolean) {
+    const now = Date.now();
+    if (present) {
+      this.lastSeen = now;
+      this.away = false;
+    } else if (this.awayTakeover && !this.away && now - this.lastSeen > AWAY_MS) {
+      this.away = true;
+      this.schedule();
+    }
+  }
+
+  // start a transition right away instead of waiting for the end of the track
+  mixNow() {
+    if (this.transition) return;
+    const pair = this.pickPair();
+    if (!pair) return;
+    this.begin(pair.from, pair.to);
+    this.schedule();
+  }
+
+  cancel() {
+    if (this.transition) this.finish(false);
+  }
+
+  getState(): AutomixState {
+    const t = this.transition;
+    return {
+      enabled: this.enabled,
+      away: this.away,
+      awayTakeover: this.awayTakeover,
+      style: this.style,
+      bars: this.bars,
+      mixing: !!t,
+      from: t?.from ?? this.next?.from ?? null,
+      to: t?.to ?? this.next?.to ?? null,
+      progress: t?.progress ?? 0,
+      startsIn: t ? null : this.next?.startsIn ?? null
+    };
+  }
+
+  private active() {
+    return this.enabled || this.away;
+  }
+
+  private schedule() {
+    const run = this.active() || !!this.transition;
+    if (run && this.timer === null) this.timer = window.setInterval(() => this.tick(), TICK_MS);
+    else if (!run && this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+      this.next = null;
+    }
+  }
+
+  private tick() {
+    const ctx = this.engine.audioCtx;
+    if (!ctx) return;
+    if (this.transition) {
+      this.step(ctx.currentTime);
+      return;
+    }
+    if (!this.active()) {
+      this.schedule();
+      return;
+    }
+    const pair = this.pickPair();
+    if (!pair) {
+      this.next = null;
+      return;
+    }
+    const info = this.engine.getDeckInfo(pair.from);
+    const remaining = ((info.duration ?? 0) - this.engine.getCurrentTime(pair.from)) / info.rate;
+    const startsIn = Math.max(0, remaining - this.lengthOf(pair.from));
+    this.next = { ...pair, startsIn };
+    if (startsIn === 0) this.begin(pair.from, pair.to);
+  }
+
+  // transition length in seconds at the deck's current tempo
+  private lengthOf(deckId: DeckId) {
+    const info = this.engine.getDeckInfo(deckId);
+    return (this.bars * 4 * 60) / ((info.bpm ?? FALLBACK_BPM) * info.rate);
+  }
+
+  // gain of a crossfader side at fader position x with the current curve settings
+  private sideGainAt(side: 'left' | 'right', x: number) {
+    const s = this.engine.getCrossfaderSettings();
+    return crossfadeGains(x, s.curve, s.cutIn, s.hamster)[side];
+  }
+
+  // fader position that leaves only `side` audible
+  private endFor(side: 'left' | 'right') {
+    const hamster = this.engine.getCrossfaderSettings().hamster;
+    return (side === 'left') !== hamster ? 0 : 1;
+  }
+
+  // the on-air deck and a loaded, stopped deck on the opposite crossfader side with enough track left
+  private pickPair() {
+    const e = this.engine;
+    const x = e.getCrossfaderSettings().position;
+    const ids = e.getDeckIds();
+    const from = ids.find((id) => {
+      const side = e.getDeckCrossfaderAssign(id);
+      return side !== 'thru' && e.getDeckInfo(id).isPlaying && this.sideGainAt(side, x) > 0.5;
+    });
+    if (!from) return null;
+    const other = e.getDeckCrossfaderAssign(from) === 'left' ? 'right' : 'left';
+    const need = this.lengthOf(from) * 2;
+    const to = ids.find((id) => {
+      if (id === from || e.getDeckCrossfaderAssign(id) !== other) return false;
+      const info = e.getDeckInfo(id);
+      return !info.isPlaying && !!info.duration && info.duration - e.getCurrentTime(id) > need;
+    });
+    return to ? { from, to } : null;
+  }
+
+  private begin(from: DeckId, to: DeckId) {
+    const e = this.engine;
+    const now = e.audioCtx!.currentTime;
+    const fromInfo = e.getDeckInfo(from);
+    const toInfo = e.getDeckInfo(to);
+    // an incoming track cued before its first beat starts on it
+    if (toInfo.downbeat !== null && e.getCurrentTime(to) < toInfo.downbeat) e.seekDeck(to, toInfo.downbeat);
+    e.syncDeckTo(to, from);
+    e.playDeck(to);
+    // the fader starts moving on the outgoing deck's next beat
+    let wait = 0;
+    if (fromInfo.bpm) {
+      const phase = beatPhase(fromInfo.bpm, fromInfo.downbeat ?? 0, e.getCurrentTime(from));
+      wait = ((1 - phase) % 1) * beatLength(fromInfo.bpm) / fromInfo.rate;
+    }
+    const eq = { from: e.getDeckEQ(from), to: e.getDeckEQ(to) };
+    if (this.style === 'bassSwap') e.setDeckEQ(to, { ...eq.to, low: BASS_CUT });
+    this.transition = {
+      from,
+      to,
+      style: this.style,
+      start: now + wait,
+      length: this.lengthOf(from),
+      fromX: e.getCrossfaderSettings().position,
+      toX: this.endFor(e.getDeckCrossfaderAssign(to) === 'left' ? 'left' : 'right'),
+      eq,
+      echo: null,
+      swapped: false,
+      cut: false,
+      progress: 0
+    };
+    this.next = null;
+  }
+
+  private step(now: number) {
+    const e = this.engine;
+    const t = this.transition!;
+    // the performer stopped the incoming deck: leave everything where it is
+    if (!e.getDeckInfo(t.to).isPlaying) {
+      this.finish(false);
+      return;
+    }
+    const p = clamp((now - t.start) / t.length, 0, 1);
+    t.progress = p;
+    if (t.style === 'bassSwap' && !t.swapped && p >= 0.5) {
+      e.setDeckEQ(t.from, { ...t.eq.from, low: BASS_CUT });
+      e.setDeckEQ(t.to, t.eq.to);
+      t.swapped = true;
+    }
+    if (t.style === 'echoOut') {
+      if (t.echo === null && p >= ECHO_AT) {
+        const id = e.addDeckEffect(t.from, 'echo');
+        if (id !== null) {
+          e.setDeckEffectParam(t.from, id, 'time', 0.5);
+          e.setDeckEffectParam(t.from, id, 'feedback', 0.7);
+          e.setDeckEffectParam(t.from, id, MIX_PARAM, 0.6);
+        }
+        t.echo = id ?? -1;
+      }
+      // stopping the deck leaves the echo tail ringing out through the fader
+      if (!t.cut && p >= ECHO_CUT_AT) {
+        e.pauseDeck(t.from);
+        t.cut = true;
+      }
+    }
+    e.setCrossfade(t.fromX + (t.toX - t.fromX) * p);
+    if (p >= 1) this.finish(true);
+  }
+
+  private finish(complete: boolean) {
+    const e = this.engine;
+    const t = this.transition!;
+    this.transition = null;
+    if (complete) {
+      e.setCrossfade(t.toX);
+      e.pauseDeck(t.from);
+      // line up the outgoing deck's next queued track for the following transition
+      e.loadNextTrack(t.from);
+    }
+    if (t.style === 'bassSwap') {
+      e.setDeckEQ(t.from, t.eq.from);
+      e.setDeckEQ(t.to, t.eq.to);
+    }
+    if (t.echo !== null && t.echo >= 0) e.removeDeckEffect(t.from, t.echo);
+    // the incoming deck leads from here on
+    e.unsyncDeck(t.to);
+    this.schedule();
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Beat math on top of a detected tempo (see TrackAnalyzer.detectTempo).
+ * Beat 0 is the first downbeat; negative beats lie before it. Times are track seconds.
+ */
+
+export function beatLength(bpm: number) {
+  return 60 / bpm;
+}
+
+// fractional beat index at a track time
+export function beatAt(bpm: number, downbeat: number, time: number) {
+  return (time - downbeat) / beatLength(bpm);
+}
+
+export function timeAtBeat(bpm: number, downbeat: number, beat: number) {
+  return downbeat + beat * beatLength(bpm);
+}
+
+// position within the current beat, 0..1
+export function beatPhase(bpm: number, downbeat: number, time: number) {
+  const b = beatAt(bpm, downbeat, time);
+  return b - Math.floor(b);
+}
+
+// wrap a phase difference into -0.5..0.5 so alignment always takes the shortest way
+export function wrapPhase(diff: number) {
+  return diff - Math.round(diff);
+}
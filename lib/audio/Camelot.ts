@@ -0,0 +1,44 @@
+/**
+ * Musical key naming and Camelot wheel helpers.
+ * Pitch classes are 0 = C .. 11 = B.
+ */
+
+export type KeyMode = 'major' | 'minor';
+
+const MAJOR_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+const MINOR_NAMES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'G#', 'A', 'Bb', 'B'];
+
+// e.g. 'A minor'
+export function keyName(tonic: number, mode: KeyMode) {
+  return `${(mode === 'major' ? MAJOR_NAMES : MINOR_NAMES)[tonic]} ${mode}`;
+}
+
+// e.g. 'Am', 'F#'
+export function keyShortName(tonic: number, mode: KeyMode) {
+  return mode === 'major' ? MAJOR_NAMES[tonic] : `${MINOR_NAMES[tonic]}m`;
+}
+
+// e.g. 8A for A minor, 8B for C major
+export function camelotCode(tonic: number, mode: KeyMode) {
+  // minor keys share the number of their relative major (a minor third up)
+  const major = mode === 'major' ? tonic : (tonic + 3) % 12;
+  const num = (((major * 7) % 12) + 7) % 12 + 1;
+  return `${num}${mode === 'major' ? 'B' : 'A'}`;
+}
+
+function parseCamelot(code: string) {
+  const m = /^(\d{1,2})([AB])$/.exec(code);
+  if (!m) return null;
+  return { num: parseInt(m[1], 10), letter: m[2] };
+}
+
+// same key, one step around the wheel, or the relative major/minor
+export function isHarmonicMatch(a: string, b: string) {
+  const ka = parseCamelot(a);
+  const kb = parseCamelot(b);
+  if (!ka || !kb) return false;
+  if (ka.num === kb.num) return true;
+  if (ka.letter !== kb.letter) return false;
+  const diff = Math.abs(ka.num - kb.num);
+  return diff === 1 || diff === 11;
+}
@@ -0,0 +1,44 @@
+/**
+ * Crossfader curve shapes.
+ * A curve gives a side's gain from its travel `t`: 0 with the fader at that side's end, 1 at the opposite end.
+ * The hamster switch mirrors the fader so its left end favours the right side.
+ */
+
+import { clamp } from '../utils/clamp';
+
+export type CrossfaderCurve = 'smooth' | 'linear' | 'dip' | 'scratch';
+
+export const CROSSFADER_CURVES: Array<{ curve: CrossfaderCurve; label: string }> = [
+  { curve: 'smooth', label: 'Smooth' },
+  { curve: 'linear', label: 'Linear' },
+  { curve: 'dip', label: 'Dip' },
+  { curve: 'scratch', label: 'Cut' }
+];
+
+// scratch curve cut-in: fader travel (0..1) from the far end over which a side fades in fully
+export const CUT_IN_MIN = 0.005;
+export const CUT_IN_MAX = 0.25;
+export const DEFAULT_CUT_IN = 0.03;
+
+export function sideGain(curve: CrossfaderCurve, t: number, cutIn = DEFAULT_CUT_IN) {
+  const x = clamp(t, 0, 1);
+  switch (curve) {
+    case 'smooth':
+      // equal power: summed power stays constant across the travel
+      return Math.cos(x * Math.PI * 0.5);
+    case 'linear':
+      return 1 - x;
+    case 'dip':
+      // both sides fall to -6 dB at the center
+      return Math.cos(x * Math.PI * 0.5) ** 2;
+    case 'scratch':
+      // both sides full across the middle, cutting in over the last `cutIn` of travel
+      return clamp((1 - x) / clamp(cutIn, CUT_IN_MIN, CUT_IN_MAX), 0, 1);
+  }
+}
+
+// gains for the left and right sides at fader position x (0 = left, 1 = right)
+export function crossfadeGains(x: number, curve: CrossfaderCurve, cutIn = DEFAULT_CUT_IN, hamster = false) {
+  const t = hamster ? 1 - x : x;
+  return { left: sideGain(curve, t, cutIn), right: sideGain(curve, 1 - t, cutIn) };
+}
@@ -0,0 +1,140 @@
+/**
+ * Headphone cue (PFL) bus.
+ * Deck PFL sends sum into `input`; the headphone mix blends that with the master signal.
+ * Normal mode plays the headphone mix on a separate output device (HTMLAudioElement.setSinkId).
+ * Split mode puts cue (mono, left) and master (mono, right) on the main stereo output instead.
+ * The bus owns the master -> destination connection so it can swap it for the split merger.
+ */
+
+import { clamp } from '../utils/clamp';
+
+export default class CueBus {
+  readonly input: GainNode;
+  private ctx: AudioContext;
+  private masterOut: AudioNode;
+  private cueSide: GainNode;
+  private masterSide: GainNode;
+  private headphones: GainNode;
+  private splitMerger: ChannelMergerNode;
+  private cueMono: GainNode;
+  private masterMono: GainNode;
+  private streamDest: MediaStreamAudioDestinationNode | null = null;
+  private audioEl: HTMLAudioElement | null = null;
+
+  private mix = 0.5; // 0 = cue only, 1 = master only
+  private volume = 0.8;
+  private split = false;
+  private deviceId: string | null = null;
+
+  constructor(ctx: AudioContext, masterOut: AudioNode) {
+    this.ctx = ctx;
+    this.masterOut = masterOut;
+
+    this.input = ctx.createGain();
+    this.cueSide = ctx.createGain();
+    this.masterSide = ctx.createGain();
+    this.headphones = ctx.createGain();
+    this.input.connect(this.cueSide);
+    masterOut.connect(this.masterSide);
+    this.cueSide.connect(this.headphones);
+    this.masterSide.connect(this.headphones);
+
+    // split-cue: sum each side to mono, then merge into L/R
+    this.cueMono = ctx.createGain();
+    this.masterMono = ctx.createGain();
+    [this.cueMono, this.masterMono].forEach((n) => {
+      n.channelCount = 1;
+      n.channelCountMode = 'explicit';
+      n.channelInterpretation = 'speakers';
+    });
+    this.splitMerger = ctx.createChannelMerger(2);
+    this.headphones.connect(this.cueMono);
+    this.cueMono.connect(this.splitMerger, 0, 0);
+    this.masterMono.connect(this.splitMerger, 0, 1);
+
+    this.applyMix();
+    this.route();
+  }
+
+  setMix(x: number) {
+    this.mix = clamp(x, 0, 1);
+    this.applyMix();
+  }
+
+  setVolume(v: number) {
+    this.volume = clamp(v, 0, 1);
+    this.headphones.gain.setValueAtTime(this.volume, this.ctx.currentTime);
+  }
+
+  setSplit(on: boolean) {
+    this.split = on;
+    this.route();
+  }
+
+  // route the headphone mix to an output device; null stops the separate output
+  async setDevice(deviceId: string | null) {
+    this.deviceId = deviceId;
+    if (!deviceId) {
+      this.stopDeviceOutput();
+      return;
+    }
+    if (!this.streamDest) {
+      this.streamDest = this.ctx.createMediaStreamDestination();
+      this.headphones.connect(this.streamDest);
+    }
+    if (!this.audioEl) {
+      this.audioEl = new Audio();
+      this.audioEl.srcObject = this.streamDest.stream;
+    }
+    const el = this.audioEl as HTMLAudioElement & { setSinkId?: (id: string) => Promise<void> };
+    if (!el.setSinkId) throw new Error('Selecting an output device is not supported in this browser');
+    await el.setSinkId(deviceId);
+    await el.play();
+  }
+
+  getState() {
+    return { mix: this.mix, volume: this.volume, split: this.split, deviceId: this.deviceId };
+  }
+
+  // equal-power blend between the cue and master sides
+  private applyMix() {
+    const now = this.ctx.currentTime;
+    this.cueSide.gain.setValueAtTime(Math.cos(this.mix * Math.PI * 0.5), now);
+    this.masterSide.gain.setValueAtTime(Math.sin(this.mix * Math.PI * 0.5), now);
+    this.headphones.gain.setValueAtTime(this.volume, now);
+  }
+
+  private route() {
+    const dest = this.ctx.destination;
+    try {
+      this.masterOut.disconnect(dest);
+    } catch (e) {}
+    try {
+      this.masterOut.disconnect(this.masterMono);
+    } catch (e) {}
+    try {
+      this.splitMerger.disconnect();
+    } catch (e) {}
+
+    if (this.split) {
+      this.masterOut.connect(this.masterMono);
+      this.splitMerger.connect(dest);
+    } else {
+      this.masterOut.connect(dest);
+    }
+  }
+
+  private stopDeviceOutput() {
+    if (this.audioEl) {
+      this.audioEl.pause();
+      this.audioEl.srcObject = null;
+      this.audioEl = null;
+    }
+    if (this.streamDest) {
+      try {
+        this.headphones.disconnect(this.streamDest);
+      } catch (e) {}
+      this.streamDest = null;
+    }
+  }
+}
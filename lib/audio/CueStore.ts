@@ -0,0 +1,38 @@
+/**
+ * Hot cue persistence.
+ * Cue points are stored per track in localStorage under `gesturedj:cues:<content hash>`,
+ * so a track gets its cues back whenever the same file is loaded again.
+ */
+
+export const HOT_CUE_COUNT = 8;
+
+// cue times in seconds, null for an empty pad
+export type HotCues = Array<number | null>;
+
+const STORAGE_PREFIX = 'gesturedj:cues:';
+
+export function emptyCues(): HotCues {
+  return new Array(HOT_CUE_COUNT).fill(null);
+}
+
+export function loadCues(trackHash: string): HotCues {
+  const cues = emptyCues();
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + trackHash);
+    if (!raw) return cues;
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return cues;
+    for (let i = 0; i < HOT_CUE_COUNT; i++) {
+      const v = parsed[i];
+      cues[i] = typeof v === 'number' && isFinite(v) ? v : null;
+    }
+  } catch (e) {}
+  return cues;
+}
+
+export function saveCues(trackHash: string, cues: HotCues) {
+  try {
+    if (cues.every((c) => c === null)) localStorage.removeItem(STORAGE_PREFIX + trackHash);
+    else localStorage.setItem(STORAGE_PREFIX + trackHash, JSON.stringify(cues));
+  } catch (e) {}
+}
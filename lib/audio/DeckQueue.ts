@@ -0,0 +1,140 @@
+/**
+ * Upcoming tracks for one deck.
+ * The track at the head of the queue is decoded (and its cached analysis looked up) in the background,
+ * so "load next" only has to swap buffers. Loading waits until the deck has stopped: while it plays,
+ * the load is armed and happens as soon as the deck stops or reaches the end of its track.
+ */
+
+import { getTrack, getTrackFile } from '../library/TrackStore';
+import { parseFileName } from '../library/TrackImport';
+import type AudioEngine from './AudioEngine';
+import type { DeckId, PreparedTrack } from './AudioEngine';
+
+export type QueueItem = { id: number; title: string; artist: string | null; status: 'queued' | 'decoding' | 'ready' | 'error' };
+export type QueueState = { items: QueueItem[]; armed: boolean };
+
+type Entry = QueueItem & { trackId: string | null; file: Blob | null; prepared: Promise<PreparedTrack> | null };
+
+const WATCH_MS = 250;
+// a deck this close to the end of its track counts as stopped
+const END_MARGIN = 0.05;
+
+export default class DeckQueue {
+  private entries: Entry[] = [];
+  private nextId = 1;
+  private armed = false;
+  private timer: number | null = null;
+
+  constructor(private readonly engine: AudioEngine, private readonly deckId: DeckId) {}
+
+  async addTrack(trackId: string) {
+    const track = await getTrack(trackId);
+    if (!track) {
+      console.warn('Track not found in library', trackId);
+      return;
+    }
+    this.push({ trackId, file: null, title: track.title, artist: track.artist });
+  }
+
+  addFile(file: File) {
+    const { title, artist } = parseFileName(file.name);
+    this.push({ trackId: null, file, title, artist });
+  }
+
+  remove(id: number) {
+    this.entries = this.entries.filter((e) => e.id !== id);
+    if (this.entries.length === 0) this.disarm();
+    this.prepareHead();
+  }
+
+  move(id: number, index: number) {
+    const from = this.entries.findIndex((e) => e.id === id);
+    if (from < 0) return;
+    const [entry] = this.entries.splice(from, 1);
+    this.entries.splice(Math.max(0, Math.min(this.entries.length, index)), 0, entry);
+    this.prepareHead();
+  }
+
+  clear() {
+    this.entries = [];
+    this.disarm();
+  }
+
+  // swap the head track onto the deck now if it is stopped, otherwise as soon as it stops
+  loadNext() {
+    if (this.entries.length === 0) return false;
+    if (this.deckBusy()) {
+      this.armed = true;
+      if (this.timer === null) this.timer = window.setInterval(() => !this.deckBusy() && this.swap(), WATCH_MS);
+    } else {
+      this.swap();
+    }
+    return true;
+  }
+
+  getTrackIds() {
+    return this.entries.flatMap((e) => (e.trackId ? [e.trackId] : []));
+  }
+
+  getState(): QueueState {
+    return { items: this.entries.map(({ id, title, artist, status }) => ({ id, title, artist, status })), armed: this.armed };
+  }
+
+  private push(source: Pick<Entry, 'trackId' | 'file' | 'title' | 'artist'>) {
+    this.entries.push({ ...source, id: this.nextId++, status: 'queued', prepared: null });
+    this.prepareHead();
+  }
+
+  private deckBusy() {
+    const info = this.engine.getDeckInfo(this.deckId);
+    if (!info.isPlaying) return false;
+    return !info.duration || this.engine.getCurrentTime(this.deckId) < info.duration - END_MARGIN;
+  }
+
+  private disarm() {
+    this.armed = false;
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // decode the head in the background; decoded buffers further down the queue are dropped to bound memory
+  private prepareHead() {
+    this.entries.forEach((e, i) => {
+      if (i === 0 || !e.prepared) return;
+      e.prepared = null;
+      e.status = 'queued';
+    });
+    const head = this.entries[0];
+    if (!head || head.prepared) return;
+    head.status = 'decoding';
+    head.prepared = this.prepare(head);
+    head.prepared.then(
+      () => (head.status = 'ready'),
+      (e) => {
+        head.status = 'error';
+        console.warn('Could not decode queued track', head.title, e);
+      }
+    );
+  }
+
+  private async prepare(entry: Entry) {
+    const file = entry.file ?? (entry.trackId ? await getTrackFile(entry.trackId) : null);
+    if (!file) throw new Error('Track file missing');
+    return await this.engine.prepareTrack(file);
+  }
+
+  private async swap() {
+    const entry = this.entries.shift();
+    this.disarm();
+    if (!entry) return;
+    try {
+      await this.engine.loadPreparedTrack(this.deckId, await (entry.prepared ?? this.prepare(entry)));
+    } catch (e) {
+      console.warn('Could not load queued track', entry.title, e);
+    }
+    // the queue advanced: decode the following track
+    this.prepareHead();
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Stereo level meter on top of AnalyserNodes.
+ * Reports RMS and sample peak (max of both channels), a peak-hold that decays after HOLD_MS,
+ * a latched clip flag and, optionally, a 4x oversampled true-peak estimate (ITU-R BS.1770 style).
+ */
+
+export type MeterReading = {
+  rms: number; // linear 0..1
+  peak: number; // linear sample peak
+  peakHold: number; // linear
+  clip: boolean;
+  truePeakDb?: number; // dBTP, only when enabled
+};
+
+const HOLD_MS = 1500;
+const HOLD_DECAY_PER_SEC = 0.6; // linear units per second after the hold time
+const CLIP_LEVEL = 0.999;
+
+// 4x polyphase interpolation taps (windowed sinc, 12 taps per phase)
+const OVERSAMPLE = 4;
+const TAPS_PER_PHASE = 12;
+const POLYPHASE: Float32Array[] = (() => {
+  const phases: Float32Array[] = [];
+  const half = TAPS_PER_PHASE / 2;
+  for (let p = 0; p < OVERSAMPLE; p++) {
+    const taps = new Float32Array(TAPS_PER_PHASE);
+    const frac = p / OVERSAMPLE;
+    for (let k = 0; k < TAPS_PER_PHASE; k++) {
+      const x = k - half + 1 - frac;
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+      const win = 0.5 + 0.5 * Math.cos((Math.PI * x) / (half + 1));
+      taps[k] = sinc * win;
+    }
+    phases.push(taps);
+  }
+  return phases;
+})();
+
+export function truePeak(samples: Float32Array) {
+  let max = 0;
+  for (let i = TAPS_PER_PHASE; i < samples.length; i++) {
+    for (let p = 0; p < OVERSAMPLE; p++) {
+      const taps = POLYPHASE[p];
+      let acc = 0;
+      for (let k = 0; k < TAPS_PER_PHASE; k++) acc += taps[k] * samples[i - TAPS_PER_PHASE + 1 + k];
+      const a = Math.abs(acc);
+      if (a > max) max = a;
+    }
+  }
+  return max;
+}
+
+export function toDb(linear: number) {
+  return linear > 0 ? 20 * Math.log10(linear) : -Infinity;
+}
+
+// map a linear level to a 0..1 meter position on a dB scale
+export function meterPosition(linear: number, floorDb = -48) {
+  const db = toDb(linear);
+  if (!isFinite(db)) return 0;
+  return Math.max(0, Math.min(1, (db - floorDb) / -floorDb));
+}
+
+export default class LevelMeter {
+  private analysers: AnalyserNode[];
+  private buf = new Float32Array(2048);
+  private hold = 0;
+  // peak the hold was set from; the decay is measured from it
+  private heldPeak = 0;
+  private holdAt = 0;
+  private clip = false;
+  private measureTruePeak: boolean;
+  private truePeakMax = 0;
+
+  constructor(ctx: BaseAudioContext, source: AudioNode, { truePeak = false }: { truePeak?: boolean } = {}) {
+    const splitter = ctx.createChannelSplitter(2);
+    source.connect(splitter);
+    this.analysers = [0, 1].map((c) => {
+      const a = ctx.createAnalyser();
+      a.fftSize = 2048;
+      a.smoothingTimeConstant = 0;
+      splitter.connect(a, c);
+      return a;
+    });
+    this.measureTruePeak = truePeak;
+  }
+
+  read(): MeterReading {
+    let sum = 0;
+    let peak = 0;
+    let tp = 0;
+    this.analysers.forEach((a) => {
+      a.getFloatTimeDomainData(this.buf);
+      for (let i = 0; i < this.buf.length; i++) {
+        const v = this.buf[i];
+        sum += v * v;
+        const abs = v < 0 ? -v : v;
+        if (abs > peak) peak = abs;
+      }
+      if (this.measureTruePeak) tp = Math.max(tp, truePeak(this.buf));
+    });
+    const rms = Math.sqrt(sum / (this.buf.length * this.analysers.length));
+
+    const now = performance.now();
+    if (peak >= this.hold) {
+      this.hold = peak;
+      this.heldPeak = peak;
+      this.holdAt = now;
+    } else if (now - this.holdAt > HOLD_MS) {
+      this.hold = Math.max(peak, this.heldPeak - (HOLD_DECAY_PER_SEC * (now - this.holdAt - HOLD_MS)) / 1000);
+    }
+    if (peak >= CLIP_LEVEL) this.clip = true;
+
+    const reading: MeterReading = { rms, peak, peakHold: this.hold, clip: this.clip };
+    if (this.measureTruePeak) {
+      this.truePeakMax = Math.max(this.truePeakMax, tp, peak);
+      reading.truePeakDb = toDb(this.truePeakMax);
+    }
+    return reading;
+  }
+
+  // clears the latched clip flag and the true-peak maximum
+  reset() {
+    this.clip = false;
+    this.truePeakMax = 0;
+    this.hold = 0;
+    this.heldPeak = 0;
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Records the master mix.
+ * PCM is captured losslessly by an AudioWorklet for WAV export; a MediaRecorder can run
+ * alongside it to produce a compressed file from the same tap.
+ */
+
+import { RECORDER } from './worklets/recorder';
+import { encodeWav } from './WavEncoder';
+import type { WavBitDepth } from './WavEncoder';
+
+export type RecorderState = 'idle' | 'recording' | 'paused';
+
+export type MixRecording = {
+  channels: Float32Array[];
+  sampleRate: number;
+  duration: number;
+  compressed: Blob | null;
+  toWav: (bitDepth?: WavBitDepth) => Blob;
+};
+
+const COMPRESSED_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4', 'audio/webm'];
+
+export default class MixRecorder {
+  private ctx: AudioContext;
+  private tap: AudioNode;
+  private node: AudioWorkletNode | null = null;
+  private streamDest: MediaStreamAudioDestinationNode | null = null;
+  private mediaRecorder: MediaRecorder | null = null;
+  private mediaChunks: Blob[] = [];
+  private chunks: Float32Array[][] = [];
+  private frames = 0;
+  private level = 0;
+  private state: RecorderState = 'idle';
+  private stopResolve: (() => void) | null = null;
+
+  constructor(ctx: AudioContext, tap: AudioNode) {
+    this.ctx = ctx;
+    this.tap = tap;
+  }
+
+  // the recorder worklet must already be registered on the context
+  start({ compressed = false }: { compressed?: boolean } = {}) {
+    if (this.state !== 'idle') return;
+    this.chunks = [];
+    this.frames = 0;
+    this.level = 0;
+    this.mediaChunks = [];
+
+    if (!this.node) {
+      this.node = new AudioWorkletNode(this.ctx, RECORDER, { numberOfInputs: 1, numberOfOutputs: 0, channelCount: 2, channelCountMode: 'explicit' });
+      this.node.port.onmessage = (e) => this.onMessage(e.data);
+      this.tap.connect(this.node);
+    }
+    this.node.port.postMessage('start');
+
+    if (compressed && typeof MediaRecorder !== 'undefined') {
+      const mimeType = COMPRESSED_TYPES.find((t) => MediaRecorder.isTypeSupported(t));
+      this.streamDest = this.ctx.createMediaStreamDestination();
+      this.tap.connect(this.streamDest);
+      this.mediaRecorder = new MediaRecorder(this.streamDest.stream, mimeType ? { mimeType } : undefined);
+      this.mediaRecorder.ondataavailable = (e) => {
+        if (e.data.size > 0) this.mediaChunks.push(e.data);
+      };
+      this.mediaRecorder.start(1000);
+    }
+    this.state = 'recording';
+  }
+
+  pause() {
+    if (this.state !== 'recording') return;
+    this.node?.port.postMessage('pause');
+    if (this.mediaRecorder?.state === 'recording') this.mediaRecorder.pause();
+    this.state = 'paused';
+  }
+
+  resume() {
+    if (this.state !== 'paused') return;
+    this.node?.port.postMessage('resume');
+    if (this.mediaRecorder?.state === 'paused') this.mediaRecorder.resume();
+    this.state = 'recording';
+  }
+
+  async stop(): Promise<MixRecording | null> {
+    if (this.state === 'idle') return null;
+    this.state = 'idle';
+
+    const pcmDone = new Promise<void>((resolve) => {
+      this.stopResolve = resolve;
+    });
+    this.node?.port.postMessage('stop');
+
+    const compressedDone = new Promise<Blob | null>((resolve) => {
+      const mr = this.mediaRecorder;
+      if (!mr || mr.state === 'inactive') return resolve(null);
+      mr.onstop = () => resolve(new Blob(this.mediaChunks, { type: mr.mimeType || 'audio/webm' }));
+      mr.stop();
+    });
+
+    const [compressed] = await Promise.all([compressedDone, pcmDone]);
+    if (this.streamDest) {
+      try {
+        this.tap.disconnect(this.streamDest);
+      } catch (e) {}
+    }
+    this.streamDest = null;
+    this.mediaRecorder = null;
+    this.level = 0;
+
+    const channels = this.concat();
+    const sampleRate = this.ctx.sampleRate;
+    return {
+      channels,
+      sampleRate,
+      duration: (channels[0]?.length ?? 0) / sampleRate,
+      compressed,
+      toWav: (bitDepth: WavBitDepth = 16) => encodeWav(channels, sampleRate, bitDepth)
+    };
+  }
+
+  getState() {
+    return this.state;
+  }
+
+  // recorded seconds, excluding pauses
+  getElapsed() {
+    return this.frames / this.ctx.sampleRate;
+  }
+
+  // recent peak level 0..1 of the recorded signal
+  getLevel() {
+    return this.level;
+  }
+
+  private onMessage(data: { channels?: Float32Array[]; peak?: number; done?: boolean }) {
+    if (data.channels) {
+      this.chunks.push(data.channels);
+      this.frames += data.channels[0]?.length ?? 0;
+      this.level = Math.max(data.peak ?? 0, this.level * 0.8);
+    }
+    if (data.done && this.stopResolve) {
+      this.stopResolve();
+      this.stopResolve = null;
+    }
+  }
+
+  private concat() {
+    const count = this.chunks[0]?.length ?? 2;
+    const out: Float32Array[] = [];
+    for (let c = 0; c < count; c++) {
+      const data = new Float32Array(this.frames);
+      let offset = 0;
+      this.chunks.forEach((chunk) => {
+        data.set(chunk[c], offset);
+        offset += chunk[c].length;
+      });
+      out.push(data);
+    }
+    this.chunks = [];
+    return out;
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Pad sampler with its own output on the master bus.
+ * Each pad holds a one-shot or looped sample with its own gain. Pads in the same choke group
+ * cut each other off, and retriggering a pad restarts it (a looped pad toggles instead).
+ */
+
+import { clamp } from '../utils/clamp';
+
+export const SAMPLER_PADS = 16;
+export const CHOKE_GROUPS = 4;
+
+export type PadSettings = {
+  gain: number; // 0..1.5
+  loop: boolean;
+  choke: number | null; // 1..CHOKE_GROUPS
+};
+
+export type PadState = PadSettings & { name: string | null; loaded: boolean; playing: boolean };
+
+type Pad = PadSettings & { name: string | null; buffer: AudioBuffer | null };
+type Voice = { source: AudioBufferSourceNode; gain: GainNode };
+
+// fade used when a voice is stopped or choked, in seconds
+const STOP_FADE = 0.012;
+
+export default class Sampler {
+  readonly output: GainNode;
+  private pads: Pad[] = Array.from({ length: SAMPLER_PADS }, () => ({ name: null, buffer: null, gain: 1, loop: false, choke: null }));
+  private voices: Array<Voice | null> = new Array(SAMPLER_PADS).fill(null);
+
+  constructor(private readonly ctx: AudioContext, destination: AudioNode) {
+    this.output = ctx.createGain();
+    this.output.connect(destination);
+  }
+
+  load(index: number, buffer: AudioBuffer, name: string) {
+    const pad = this.pads[index];
+    if (!pad) return;
+    this.stop(index);
+    pad.buffer = buffer;
+    pad.name = name;
+  }
+
+  clear(index: number) {
+    const pad = this.pads[index];
+    if (!pad) return;
+    this.stop(index);
+    pad.buffer = null;
+    pad.name = null;
+  }
+
+  set(index: number, s: Partial<PadSettings>) {
+    const pad = this.pads[index];
+    if (!pad) return;
+    if (typeof s.gain === 'number') pad.gain = clamp(s.gain, 0, 1.5);
+    if (typeof s.loop === 'boolean') pad.loop = s.loop;
+    if (s.choke !== undefined) pad.choke = s.choke === null ? null : clamp(Math.round(s.choke), 1, CHOKE_GROUPS);
+    const voice = this.voices[index];
+    if (voice) {
+      voice.gain.gain.setTargetAtTime(pad.gain, this.ctx.currentTime, 0.01);
+      voice.source.loop = pad.loop;
+    }
+  }
+
+  trigger(index: number) {
+    const pad = this.pads[index];
+    if (!pad?.buffer) return;
+    // a playing loop toggles off
+    if (pad.loop && this.voices[index]) {
+      this.stop(index);
+      return;
+    }
+    if (pad.choke !== null) {
+      this.pads.forEach((p, i) => {
+        if (i !== index && p.choke === pad.choke) this.stop(i);
+      });
+    }
+    this.stop(index);
+    const now = this.ctx.currentTime;
+    const source = this.ctx.createBufferSource();
+    source.buffer = pad.buffer;
+    source.loop = pad.loop;
+    const gain = this.ctx.createGain();
+    gain.gain.value = pad.gain;
+    source.connect(gain);
+    gain.connect(this.output);
+    const voice: Voice = { source, gain };
+    source.onended = () => {
+      if (this.voices[index] === voice) this.voices[index] = null;
+      gain.disconnect();
+    };
+    source.start(now);
+    this.voices[index] = voice;
+  }
+
+  stop(index: number) {
+    const voice = this.voices[index];
+    if (!voice) return;
+    this.voices[index] = null;
+    const now = this.ctx.currentTime;
+    try {
+      voice.gain.gain.cancelScheduledValues(now);
+      voice.gain.gain.setValueAtTime(voice.gain.gain.value, now);
+      voice.gain.gain.linearRampToValueAtTime(0, now + STOP_FADE);
+      voice.source.stop(now + STOP_FADE);
+    } catch (e) {}
+  }
+
+  stopAll() {
+    this.voices.forEach((_, i) => this.stop(i));
+  }
+
+  setVolume(v: number) {
+    this.output.gain.setTargetAtTime(clamp(v, 0, 1.5), this.ctx.currentTime, 0.01);
+  }
+
+  getVolume() {
+    return this.output.gain.value;
+  }
+
+  getState(): PadState[] {
+    return this.pads.map((p, i) => ({ name: p.name, loaded: !!p.buffer, gain: p.gain, loop: p.loop, choke: p.choke, playing: !!this.voices[i] }));
+  }
+}
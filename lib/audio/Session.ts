@@ -0,0 +1,305 @@
+/**
+ * Mixer sessions: a snapshot of the whole mixer (per-deck controls, loaded tracks and their positions,
+ * FX racks, queues, crossfader and master settings) that can be restored later or shared as JSON.
+ * Tracks are referenced by their library id (content hash), so a session only brings back tracks that
+ * are in the library of the browser restoring it. The last session is autosaved to localStorage
+ * under `gesturedj:session`; the one offered for restoring on start is kept under
+ * `gesturedj:session:offered` until it is restored or dismissed, so autosave can't overwrite it.
+ */
+
+import { EFFECT_TYPES } from './fx/FxRack';
+import type { EffectType } from './fx/EffectUnit';
+import { AUTOMIX_STYLES } from './Automix';
+import type { AutomixStyle } from './Automix';
+import { CROSSFADER_CURVES, DEFAULT_CUT_IN } from './CrossfaderCurves';
+import type { CrossfaderCurve } from './CrossfaderCurves';
+import { DECK_IDS, DEFAULT_TARGET_LOUDNESS, TEMPO_RANGES } from './AudioEngine';
+import type AudioEngine from './AudioEngine';
+import type { CrossfaderSide, DeckCount, DeckId, EQSettings, TempoRange } from './AudioEngine';
+
+export const SESSION_VERSION = 1;
+
+export type DeckSession = {
+  track: string | null; // library id
+  position: number;
+  volume: number;
+  eq: EQSettings;
+  filter: number;
+  trim: number; // dB
+  autoGain: boolean;
+  tempo: number;
+  tempoRange: TempoRange;
+  keyLock: boolean;
+  pfl: boolean;
+  xfader: CrossfaderSide;
+  stopTime: number;
+  loop: { start: number; beats: number } | null;
+  loopBeats: number;
+  sync: DeckId | null; // deck it follows
+  fx: Array<{ type: EffectType; enabled: boolean; values: Record<string, number> }>;
+  queue: string[]; // library ids; files queued from disk are not kept
+};
+
+export type Session = {
+  version: number;
+  savedAt: number;
+  deckCount: DeckCount;
+  crossfader: { position: number; curve: CrossfaderCurve; cutIn: number; hamster: boolean };
+  limiter: boolean;
+  targetLoudness: number; // LUFS
+  cue: { mix: number; volume: number; split: boolean };
+  automix: { style: AutomixStyle; bars: number; awayTakeover: boolean };
+  decks: Partial<Record<DeckId, DeckSession>>;
+};
+
+const STORAGE_KEY = 'gesturedj:session';
+const OFFERED_KEY = 'gesturedj:session:offered';
+
+export function captureSession(engine: AudioEngine): Session {
+  const decks: Partial<Record<DeckId, DeckSession>> = {};
+  DECK_IDS.forEach((id) => {
+    const info = engine.getDeckInfo(id);
+    decks[id] = {
+      track: info.trackId,
+      position: engine.getCurrentTime(id),
+      volume: info.volume,
+      eq: info.eq,
+      filter: info.filter,
+      trim: info.trim,
+      autoGain: info.autoGain,
+      tempo: info.tempo,
+      tempoRange: info.tempoRange,
+      keyLock: info.keyLock,
+      pfl: info.pfl,
+      xfader: info.xfader,
+      stopTime: info.stopTime,
+      // a loop roll is momentary; keep the loop it will return to
+      loop: info.loop && !info.rolling ? { start: info.loop.start, beats: info.loop.beats } : null,
+      loopBeats: info.loopBeats,
+      sync: info.syncLeader,
+      fx: info.fx.map((u) => ({ type: u.type, enabled: u.enabled, values: { ...u.values } })),
+      queue: engine.getQueuedTrackIds(id)
+    };
+  });
+  const cue = engine.getCueState();
+  const automix = engine.getAutomixState();
+  return {
+    version: SESSION_VERSION,
+    savedAt: Date.now(),
+    deckCount: engine.getDeckCount(),
+    crossfader: engine.getCrossfaderSettings(),
+    limiter: engine.isMasterLimiterOn(),
+    targetLoudness: engine.getTargetLoudness(),
+    cue: { mix: cue.mix, volume: cue.volume, split: cue.split },
+    automix: { style: automix.style, bars: automix.bars, awayTakeover: automix.awayTakeover },
+    decks
+  };
+}
+
+// decks are left paused; returns the library ids of tracks that could not be found
+export async function restoreSession(engine: AudioEngine, session: Session) {
+  engine.getOrCreateContext();
+  engine.setAutomix(false);
+  engine.configureDecks(session.deckCount);
+  engine.setCrossfaderCurve(session.crossfader.curve);
+  engine.setCrossfaderCutIn(session.crossfader.cutIn);
+  engine.setHamster(session.crossfader.hamster);
+  engine.setCrossfade(session.crossfader.position);
+  engine.setMasterLimiter(session.limiter);
+  engine.setTargetLoudness(session.targetLoudness);
+  engine.setCueMix(session.cue.mix);
+  engine.setCueVolume(session.cue.volume);
+  engine.setSplitCue(session.cue.split);
+  engine.setAutomixStyle(session.automix.style);
+  engine.setAutomixBars(session.automix.bars);
+  engine.setAutomixAwayTakeover(session.automix.awayTakeover);
+  const missing: string[] = [];
+  await Promise.all(
+    DECK_IDS.map(async (id) => {
+      const deck = session.decks[id];
+      if (!deck) return;
+      if (await restoreDeck(engine, id, deck)) return;
+      missing.push(deck.track!);
+    })
+  );
+  // followers sync once every deck has its track and tempo back
+  DECK_IDS.forEach((id) => {
+    const leader = session.decks[id]?.sync;
+    if (leader && engine.getDeckInfo(id).trackId && engine.getDeckInfo(leader).trackId) engine.syncDeckTo(id, leader);
+  });
+  return missing;
+}
+
+// false when the deck's track is not in the library
+async function restoreDeck(engine: AudioEngine, id: DeckId, deck: DeckSession) {
+  engine.pauseDeck(id);
+  engine.unsyncDeck(id);
+  engine.getDeckInfo(id).fx.forEach((u) => engine.removeDeckEffect(id, u.id));
+  engine.clearDeckQueue(id);
+  let found = true;
+  if (deck.track) {
+    await engine.loadDeckFromLibrary(id, deck.track);
+    found = engine.getDeckInfo(id).trackId === deck.track;
+  }
+  engine.setDeckVolume(id, deck.volume);
+  engine.setDeckEQ(id, deck.eq);
+  engine.setDeckFilter(id, deck.filter);
+  engine.setDeckTrim(id, deck.trim);
+  engine.setDeckAutoGain(id, deck.autoGain);
+  engine.setDeckPfl(id, deck.pfl);
+  engine.setDeckCrossfaderAssign(id, deck.xfader);
+  engine.setDeckTempoRange(id, deck.tempoRange);
+  engine.setDeckTempo(id, deck.tempo);
+  engine.setDeckKeyLock(id, deck.keyLock);
+  engine.setDeckStopTime(id, deck.stopTime);
+  const loaded = !!deck.track && found;
+  // loops start on a beat, so setting one from its start lands on the same region
+  if (loaded && deck.loop) {
+    engine.seekDeck(id, deck.loop.start);
+    engine.setDeckLoop(id, true, deck.loop.beats);
+  } else {
+    engine.setDeckLoop(id, false, deck.loopBeats);
+  }
+  if (loaded) engine.seekDeck(id, deck.position);
+  deck.fx.forEach((u) => {
+    const unit = engine.addDeckEffect(id, u.type);
+    if (unit === null) return;
+    Object.entries(u.values).forEach(([param, value]) => engine.setDeckEffectParam(id, unit, param, value));
+    engine.setDeckEffectEnabled(id, unit, u.enabled);
+  });
+  for (const trackId of deck.queue) await engine.queueDeckTrack(id, trackId);
+  return found;
+}
+
+export function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function list(v: unknown): unknown[] {
+  return Array.isArray(v) ? v : [];
+}
+
+// one of `options`, or the fallback
+function pick<T>(options: readonly T[], v: unknown, fallback: T) {
+  return options.find((o) => o === v) ?? fallback;
+}
+
+function num(v: unknown, fallback: number) {
+  return typeof v === 'number' && isFinite(v) ? v : fallback;
+}
+
+function parseEffect(raw: unknown): DeckSession['fx'][number] | null {
+  if (!isRecord(raw)) return null;
+  const type = EFFECT_TYPES.find((t) => t.type === raw.type)?.type;
+  if (!type) return null;
+  const values: Record<string, number> = {};
+  if (isRecord(raw.values)) {
+    Object.entries(raw.values).forEach(([param, v]) => {
+      if (typeof v === 'number' && isFinite(v)) values[param] = v;
+    });
+  }
+  return { type, enabled: raw.enabled !== false, values };
+}
+
+function parseDeck(raw: unknown): DeckSession | null {
+  if (!isRecord(raw)) return null;
+  const eq = isRecord(raw.eq) ? raw.eq : {};
+  const loop = isRecord(raw.loop) ? { start: num(raw.loop.start, 0), beats: num(raw.loop.beats, 4) } : null;
+  return {
+    track: typeof raw.track === 'string' ? raw.track : null,
+    position: num(raw.position, 0),
+    volume: num(raw.volume, 0.82),
+    eq: { low: num(eq.low, 0), mid: num(eq.mid, 0), high: num(eq.high, 0) },
+    filter: num(raw.filter, 0),
+    trim: num(raw.trim, 0),
+    autoGain: raw.autoGain === true,
+    tempo: num(raw.tempo, 0),
+    tempoRange: pick(TEMPO_RANGES, raw.tempoRange, 8),
+    keyLock: raw.keyLock === true,
+    pfl: raw.pfl === true,
+    xfader: pick<CrossfaderSide>(['left', 'thru', 'right'], raw.xfader, 'thru'),
+    stopTime: num(raw.stopTime, 1),
+    loop,
+    loopBeats: num(raw.loopBeats, 4),
+    sync: pick<DeckId | null>(DECK_IDS, raw.sync, null),
+    fx: list(raw.fx)
+      .map(parseEffect)
+      .filter((u): u is DeckSession['fx'][number] => u !== null),
+    queue: list(raw.queue).filter((t): t is string => typeof t === 'string')
+  };
+}
+
+// validates a session read from storage or an imported file; throws on anything that isn't one
+export function parseSession(json: string): Session {
+  const raw: unknown = JSON.parse(json);
+  if (!isRecord(raw) || typeof raw.version !== 'number' || !isRecord(raw.decks)) throw new Error('Not a GestureDJ session');
+  const version = raw.version;
+  const saved = raw.decks;
+  if (version > SESSION_VERSION) throw new Error('Session was saved by a newer version');
+  const xf = isRecord(raw.crossfader) ? raw.crossfader : {};
+  const cue = isRecord(raw.cue) ? raw.cue : {};
+  const automix = isRecord(raw.automix) ? raw.automix : {};
+  const decks: Partial<Record<DeckId, DeckSession>> = {};
+  DECK_IDS.forEach((id) => {
+    const deck = parseDeck(saved[id]);
+    if (deck) decks[id] = deck;
+  });
+  return {
+    version,
+    savedAt: num(raw.savedAt, Date.now()),
+    deckCount: raw.deckCount === 4 ? 4 : 2,
+    crossfader: {
+      position: num(xf.position, 0.5),
+      curve: CROSSFADER_CURVES.find((c) => c.curve === xf.curve)?.curve ?? 'smooth',
+      cutIn: num(xf.cutIn, DEFAULT_CUT_IN),
+      hamster: xf.hamster === true
+    },
+    limiter: raw.limiter === true,
+    targetLoudness: num(raw.targetLoudness, DEFAULT_TARGET_LOUDNESS),
+    cue: { mix: num(cue.mix, 0.5), volume: num(cue.volume, 0.8), split: cue.split === true },
+    automix: {
+      style: AUTOMIX_STYLES.find((a) => a.style === automix.style)?.style ?? 'blend',
+      bars: num(automix.bars, 8),
+      awayTakeover: automix.awayTakeover === true
+    },
+    decks
+  };
+}
+
+// number of decks in the session with a track loaded
+export function sessionTrackCount(session: Session) {
+  return DECK_IDS.filter((id) => session.decks[id]?.track).length;
+}
+
+function write(key: string, session: Session | null) {
+  try {
+    if (session) localStorage.setItem(key, JSON.stringify(session));
+    else localStorage.removeItem(key);
+  } catch (e) {}
+}
+
+function read(key: string): Session | null {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? parseSession(raw) : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+export function saveSession(session: Session) {
+  write(STORAGE_KEY, session);
+}
+
+export function loadSavedSession() {
+  return read(STORAGE_KEY);
+}
+
+// the session on offer on start; null once it has been restored or dismissed
+export function keepOfferedSession(session: Session | null) {
+  write(OFFERED_KEY, session);
+}
+
+export function loadOfferedSession() {
+  return read(OFFERED_KEY);
+}
@@ -0,0 +1,103 @@
+/**
+ * Runs track analysis off the main thread.
+ * Channel data is copied once and transferred to a worker, which reports results progressively:
+ * overview (peaks + integrated loudness) first, then the three-band waveform, tempo and key. Cancelling terminates the worker.
+ * Falls back to running the same steps on the main thread, yielding between them, when workers are unavailable.
+ */
+
+import { analysisSteps } from './AnalysisSteps';
+import type { AnalysisMessage, AnalysisRequest } from './AnalysisSteps';
+import { pcmSource } from './TrackAnalyzer';
+import type { BandWaveform, KeyInfo, TempoInfo } from './TrackAnalyzer';
+
+export type AnalysisJob = {
+  cancel: () => void;
+  done: Promise<void>;
+};
+
+// everything the analysis produces, as cached by the track library
+export type AnalysisResult = {
+  peaks: Float32Array | null;
+  loudness: number | null; // LUFS
+  bands: BandWaveform | null;
+  tempo: TempoInfo | null;
+  key: KeyInfo | null;
+};
+
+export function analyzeTrack(buffer: AudioBuffer, onMessage: (msg: AnalysisMessage) => void): AnalysisJob {
+  let cancelled = false;
+  let worker: Worker | null = null;
+  let finish: () => void = () => {};
+  const done = new Promise<void>((resolve) => {
+    finish = resolve;
+  });
+
+  const deliver = (msg: AnalysisMessage) => {
+    if (cancelled) return;
+    onMessage(msg);
+    if (msg.type === 'done' || msg.type === 'error') finish();
+  };
+
+  try {
+    if (typeof Worker !== 'undefined') worker = new Worker(new URL('./analysisWorker.ts', import.meta.url));
+  } catch (e) {
+    worker = null;
+  }
+
+  if (worker) {
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < buffer.numberOfChannels; c++) channels.push(buffer.getChannelData(c).slice());
+    const request: AnalysisRequest = { channels, sampleRate: buffer.sampleRate };
+    worker.onmessage = (e: MessageEvent<AnalysisMessage>) => {
+      deliver(e.data);
+      if (e.data.type === 'done' || e.data.type === 'error') worker?.terminate();
+    };
+    worker.onerror = (e) => {
+      deliver({ type: 'error', message: e.message });
+      worker?.terminate();
+    };
+    worker.postMessage(request, channels.map((c) => c.buffer));
+  } else {
+    (async () => {
+      const src = pcmSource(Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c)), buffer.sampleRate);
+      for await (const msg of analysisSteps(src)) {
+        if (cancelled) return;
+        deliver(msg);
+        await new Promise((r) => setTimeout(r, 0));
+      }
+    })().catch((e) => deliver({ type: 'error', message: String(e) }));
+  }
+
+  return {
+    cancel: () => {
+      cancelled = true;
+      worker?.terminate();
+      finish();
+    },
+    done
+  };
+}
+
+export function emptyAnalysis(): AnalysisResult {
+  return { peaks: null, loudness: null, bands: null, tempo: null, key: null };
+}
+
+// adds a progress message's results to `result`
+export function absorbAnalysis(result: AnalysisResult, msg: AnalysisMessage) {
+  if (msg.type === 'overview') {
+    result.peaks = msg.peaks;
+    result.loudness = msg.loudness;
+  } else if (msg.type === 'bands') result.bands = msg.bands;
+  else if (msg.type === 'tempo') result.tempo = msg.tempo;
+  else if (msg.type === 'key') result.key = msg.key;
+}
+
+// runs the whole analysis and resolves with the collected results
+export function collectAnalysis(buffer: AudioBuffer): Promise<AnalysisResult> {
+  const result = emptyAnalysis();
+  const job = analyzeTrack(buffer, (msg) => {
+    absorbAnalysis(result, msg);
+    if (msg.type === 'error') console.warn('Track analysis failed', msg.message);
+  });
+  return job.done.then(() => result);
+}
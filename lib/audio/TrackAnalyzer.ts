@@ -1,4 +1,22 @@
-export function computePeaks(buffer: AudioBuffer, peakCount = 1024) {
+import { fft } from './FFT';
+import { camelotCode, keyName, keyShortName } from './Camelot';
+import type { KeyMode } from './Camelot';
+
+// the parts of an AudioBuffer the analysis needs, so it can also run on raw channel data in a worker
+export type PCMSource = Pick<AudioBuffer, 'sampleRate' | 'length' | 'duration' | 'numberOfChannels' | 'getChannelData'>;
+
+export function pcmSource(channels: Float32Array[], sampleRate: number): PCMSource {
+  const length = channels[0]?.length ?? 0;
+  return {
+    sampleRate,
+    length,
+    duration: length / sampleRate,
+    numberOfChannels: channels.length,
+    getChannelData: (c: number) => channels[c] as ReturnType<AudioBuffer['getChannelData']>
+  };
+}
+
+export function computePeaks(buffer: PCMSource, peakCount = 1024) {
   const channelData = buffer.numberOfChannels > 0 ? buffer.getChannelData(0) : new Float32Array(0);
   const blockSize = Math.floor(channelData.length / peakCount) || 1;
   const peaks = new Float32Array(peakCount);
@@ -15,17 +33,351 @@ export function computePeaks(buffer: AudioBuffer, peakCount = 1024) {
   return peaks;
 }
 
-export function computeRMS(buffer: AudioBuffer) {
-  let sum = 0;
-  let count = 0;
+// K-weighting filter of ITU-R BS.1770: a high-shelf pre-filter followed by the RLB high-pass,
+// as biquad coefficients (a0 = 1) for the given sample rate
+function kWeighting(sampleRate: number) {
+  const shelfK = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  const s0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+  const hpK = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const hpQ = 0.5003270373238773;
+  const h0 = 1 + hpK / hpQ + hpK * hpK;
+  return [
+    {
+      b: [(vh + (vb * shelfK) / shelfQ + shelfK * shelfK) / s0, (2 * (shelfK * shelfK - vh)) / s0, (vh - (vb * shelfK) / shelfQ + shelfK * shelfK) / s0],
+      a: [(2 * (shelfK * shelfK - 1)) / s0, (1 - shelfK / shelfQ + shelfK * shelfK) / s0]
+    },
+    { b: [1, -2, 1], a: [(2 * (hpK * hpK - 1)) / h0, (1 - hpK / hpQ + hpK * hpK) / h0] }
+  ];
+}
+
+const LOUDNESS_HOP = 0.1; // seconds; gating blocks are four hops (400 ms, 75% overlap)
+const ABSOLUTE_GATE = -70; // LUFS
+const RELATIVE_GATE = -10; // LU below the absolute-gated loudness
+// BS.1770 channel weights by channel count, in Web Audio channel order; surrounds count +1.5 dB and the
+// LFE is left out. Other layouts weight every channel 1
+const CHANNEL_WEIGHTS: Record<number, number[]> = {
+  4: [1, 1, 1.41, 1.41], // quad: L R SL SR
+  6: [1, 1, 1, 0, 1.41, 1.41] // 5.1: L R C LFE SL SR
+};
+
+// integrated loudness (BS.1770 / EBU R128) in LUFS, or null for silence and clips shorter than one block
+export function computeLoudness(buffer: PCMSource) {
+  const hop = Math.round(LOUDNESS_HOP * buffer.sampleRate);
+  const hops = Math.floor(buffer.length / hop);
+  if (hops < 4) return null;
+  // K-weighted energy per hop, summed over the weighted channels
+  const energy = new Float64Array(hops);
+  const stages = kWeighting(buffer.sampleRate);
   for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const weight = CHANNEL_WEIGHTS[buffer.numberOfChannels]?.[c] ?? 1;
+    if (weight === 0) continue;
     const data = buffer.getChannelData(c);
-    for (let i = 0; i < data.length; i++) {
-      const v = data[i];
-      sum += v * v;
-      count++;
+    const state = stages.map(() => ({ x1: 0, x2: 0, y1: 0, y2: 0 }));
+    for (let i = 0; i < hops * hop; i++) {
+      let v = data[i];
+      for (let s = 0; s < stages.length; s++) {
+        const { b, a } = stages[s];
+        const z = state[s];
+        const y = b[0] * v + b[1] * z.x1 + b[2] * z.x2 - a[0] * z.y1 - a[1] * z.y2;
+        z.x2 = z.x1;
+        z.x1 = v;
+        z.y2 = z.y1;
+        z.y1 = y;
+        v = y;
+      }
+      energy[Math.floor(i / hop)] += weight * v * v;
+    }
+  }
+  const blocks = new Float64Array(hops - 3);
+  for (let i = 0; i < blocks.length; i++) blocks[i] = (energy[i] + energy[i + 1] + energy[i + 2] + energy[i + 3]) / (4 * hop);
+  const lufs = (z: number) => -0.691 + 10 * Math.log10(z);
+  const gatedMean = (threshold: number) => {
+    let sum = 0;
+    let count = 0;
+    for (let i = 0; i < blocks.length; i++) {
+      if (blocks[i] > 0 && lufs(blocks[i]) > threshold) {
+        sum += blocks[i];
+        count++;
+      }
+    }
+    return count ? sum / count : 0;
+  };
+  const absolute = gatedMean(ABSOLUTE_GATE);
+  if (absolute === 0) return null;
+  // blocks must pass both gates
+  return lufs(gatedMean(Math.max(ABSOLUTE_GATE, lufs(absolute) + RELATIVE_GATE)));
+}
+
+export type TempoInfo = {
+  bpm: number;
+  downbeat: number; // seconds, first downbeat at or after 0
+  beatgrid: Float32Array; // beat times in seconds covering the whole track
+};
+
+const ONSET_HOP = 512;
+
+// mono onset envelope: half-wave rectified log-energy flux per hop, plus a low-band version for downbeats
+function computeOnsetEnvelope(buffer: PCMSource) {
+  const length = buffer.length;
+  const frames = Math.floor(length / ONSET_HOP);
+  const full = new Float32Array(frames);
+  const low = new Float32Array(frames);
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < buffer.numberOfChannels; c++) channels.push(buffer.getChannelData(c));
+  if (channels.length === 0 || frames < 2) return { full, low };
+
+  // one-pole low-pass around 150 Hz isolates kicks and bass
+  const lpCoef = Math.exp((-2 * Math.PI * 150) / buffer.sampleRate);
+  let lpState = 0;
+  let prevFull = 0;
+  let prevLow = 0;
+  for (let f = 0; f < frames; f++) {
+    let eFull = 0;
+    let eLow = 0;
+    const start = f * ONSET_HOP;
+    for (let i = start; i < start + ONSET_HOP; i++) {
+      let v = 0;
+      for (let c = 0; c < channels.length; c++) v += channels[c][i];
+      v /= channels.length;
+      lpState = v + lpCoef * (lpState - v);
+      eFull += v * v;
+      eLow += lpState * lpState;
+    }
+    const lf = Math.log1p(1000 * eFull);
+    const ll = Math.log1p(1000 * eLow);
+    full[f] = Math.max(0, lf - prevFull);
+    low[f] = Math.max(0, ll - prevLow);
+    prevFull = lf;
+    prevLow = ll;
+  }
+  return { full, low };
+}
+
+// sum of the envelope sampled along a comb of the given period (in frames) and phase
+function combScore(env: Float32Array, period: number, phase: number) {
+  let sum = 0;
+  let n = 0;
+  for (let t = phase; t < env.length - 1; t += period) {
+    const i = Math.floor(t);
+    const frac = t - i;
+    sum += env[i] * (1 - frac) + env[i + 1] * frac;
+    n++;
+  }
+  return n > 0 ? sum / n : 0;
+}
+
+export function detectTempo(buffer: PCMSource, minBpm = 70, maxBpm = 180): TempoInfo | null {
+  const { full, low } = computeOnsetEnvelope(buffer);
+  const fps = buffer.sampleRate / ONSET_HOP;
+  if (full.length < fps * 4) return null;
+
+  // coarse estimate: autocorrelation weighted by a log-gaussian prior around 120 BPM
+  const minLag = Math.floor((60 * fps) / maxBpm);
+  const maxLag = Math.ceil((60 * fps) / minBpm);
+  let bestLag = 0;
+  let bestScore = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let acc = 0;
+    for (let i = 0; i + lag < full.length; i++) acc += full[i] * full[i + lag];
+    acc /= full.length - lag;
+    const bpm = (60 * fps) / lag;
+    const weight = Math.exp(-0.5 * Math.pow(Math.log2(bpm / 120) / 0.9, 2));
+    if (acc * weight > bestScore) {
+      bestScore = acc * weight;
+      bestLag = lag;
+    }
+  }
+  if (!bestLag || bestScore <= 0) return null;
+
+  // fine estimate: search bpm within ±2% and all phases with a comb over the whole track
+  const coarseBpm = (60 * fps) / bestLag;
+  let bpm = coarseBpm;
+  let phase = 0;
+  let best = -1;
+  for (let b = coarseBpm * 0.98; b <= coarseBpm * 1.02; b += 0.05) {
+    const period = (60 * fps) / b;
+    for (let p = 0; p < period; p += 1) {
+      const s = combScore(full, period, p);
+      if (s > best) {
+        best = s;
+        bpm = b;
+        phase = p;
+      }
+    }
+  }
+  bpm = Math.round(bpm * 100) / 100;
+  const period = (60 * fps) / bpm;
+
+  // downbeat: the beat within a bar whose low-band onsets are strongest
+  let barOffset = 0;
+  let barBest = -1;
+  for (let k = 0; k < 4; k++) {
+    const s = combScore(low, period * 4, phase + k * period);
+    if (s > barBest) {
+      barBest = s;
+      barOffset = k;
+    }
+  }
+
+  const beatSec = 60 / bpm;
+  const barSec = beatSec * 4;
+  let downbeat = (phase + barOffset * period) / fps;
+  downbeat -= Math.floor(downbeat / barSec) * barSec;
+
+  const firstBeat = downbeat - Math.floor(downbeat / beatSec) * beatSec;
+  const count = Math.max(0, Math.floor((buffer.duration - firstBeat) / beatSec) + 1);
+  const beatgrid = new Float32Array(count);
+  for (let i = 0; i < count; i++) beatgrid[i] = firstBeat + i * beatSec;
+
+  return { bpm, downbeat, beatgrid };
+}
+
+export type KeyInfo = {
+  key: string; // standard notation, e.g. 'A minor'
+  short: string; // e.g. 'Am'
+  camelot: string; // e.g. '8A'
+  confidence: number; // 0..1, correlation with the winning key profile
+};
+
+// Krumhansl-Kessler key profiles, tonic first
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+function pearson(a: number[], b: number[]) {
+  const n = a.length;
+  const ma = a.reduce((s, v) => s + v, 0) / n;
+  const mb = b.reduce((s, v) => s + v, 0) / n;
+  let num = 0;
+  let da = 0;
+  let db = 0;
+  for (let i = 0; i < n; i++) {
+    num += (a[i] - ma) * (b[i] - mb);
+    da += (a[i] - ma) * (a[i] - ma);
+    db += (b[i] - mb) * (b[i] - mb);
+  }
+  return da > 0 && db > 0 ? num / Math.sqrt(da * db) : 0;
+}
+
+// average chroma (C..B) of the track, from FFT frames of a ~11 kHz mono downmix
+export function computeChroma(buffer: PCMSource) {
+  const chroma = new Array(12).fill(0);
+  const factor = Math.max(1, Math.floor(buffer.sampleRate / 11025));
+  const rate = buffer.sampleRate / factor;
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < buffer.numberOfChannels; c++) channels.push(buffer.getChannelData(c));
+  if (channels.length === 0) return chroma;
+
+  const length = Math.floor(buffer.length / factor);
+  const mono = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    let v = 0;
+    for (let k = 0; k < factor; k++) for (let c = 0; c < channels.length; c++) v += channels[c][i * factor + k];
+    mono[i] = v / (factor * channels.length);
+  }
+
+  const size = 4096;
+  const hann = new Float32Array(size);
+  for (let i = 0; i < size; i++) hann[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+  // pitch class for each bin between A1 and ~C7
+  const binClass = new Int8Array(size / 2).fill(-1);
+  for (let k = 1; k < size / 2; k++) {
+    const f = (k * rate) / size;
+    if (f < 55 || f > 2100) continue;
+    const midi = 69 + 12 * Math.log2(f / 440);
+    binClass[k] = ((Math.round(midi) % 12) + 12) % 12;
+  }
+
+  const re = new Float32Array(size);
+  const im = new Float32Array(size);
+  const frame = new Array(12);
+  for (let start = 0; start + size <= length; start += size) {
+    for (let i = 0; i < size; i++) {
+      re[i] = mono[start + i] * hann[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    frame.fill(0);
+    for (let k = 1; k < size / 2; k++) {
+      const pc = binClass[k];
+      if (pc >= 0) frame[pc] += Math.sqrt(re[k] * re[k] + im[k] * im[k]);
+    }
+    // normalize per frame so loud sections don't dominate
+    const max = Math.max(...frame);
+    if (max > 1e-6) for (let pc = 0; pc < 12; pc++) chroma[pc] += frame[pc] / max;
+  }
+  return chroma;
+}
+
+export function detectKey(buffer: PCMSource): KeyInfo | null {
+  const chroma = computeChroma(buffer);
+  if (chroma.every((v) => v === 0)) return null;
+
+  let best = { tonic: 0, mode: 'major' as KeyMode, r: -Infinity };
+  for (let tonic = 0; tonic < 12; tonic++) {
+    const rotated = chroma.map((_, i) => chroma[(i + tonic) % 12]);
+    const rMajor = pearson(rotated, MAJOR_PROFILE);
+    const rMinor = pearson(rotated, MINOR_PROFILE);
+    if (rMajor > best.r) best = { tonic, mode: 'major', r: rMajor };
+    if (rMinor > best.r) best = { tonic, mode: 'minor', r: rMinor };
+  }
+
+  return {
+    key: keyName(best.tonic, best.mode),
+    short: keyShortName(best.tonic, best.mode),
+    camelot: camelotCode(best.tonic, best.mode),
+    confidence: Math.max(0, Math.min(1, best.r))
+  };
+}
+
+export type BandWaveform = {
+  low: Float32Array; // peak per block below ~200 Hz
+  mid: Float32Array; // ~200 Hz - 2 kHz
+  high: Float32Array; // above ~2 kHz
+  blockDuration: number; // seconds per block
+};
+
+// per-block peak energy of three bands, split with cascaded one-pole filters (good enough for display)
+export function computeBandWaveform(buffer: PCMSource, blockSize = 512): BandWaveform {
+  const blocks = Math.max(1, Math.ceil(buffer.length / blockSize));
+  const low = new Float32Array(blocks);
+  const mid = new Float32Array(blocks);
+  const high = new Float32Array(blocks);
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < buffer.numberOfChannels; c++) channels.push(buffer.getChannelData(c));
+  const blockDuration = blockSize / buffer.sampleRate;
+  if (channels.length === 0) return { low, mid, high, blockDuration };
+
+  const coef = (hz: number) => Math.exp((-2 * Math.PI * hz) / buffer.sampleRate);
+  const aLow = coef(200);
+  const aHigh = coef(2000);
+  let lp1 = 0;
+  let lp2 = 0;
+  let lpHigh = 0;
+  for (let b = 0; b < blocks; b++) {
+    let mLow = 0;
+    let mMid = 0;
+    let mHigh = 0;
+    const end = Math.min(buffer.length, (b + 1) * blockSize);
+    for (let i = b * blockSize; i < end; i++) {
+      let v = 0;
+      for (let c = 0; c < channels.length; c++) v += channels[c][i];
+      v /= channels.length;
+      lp1 = v + aLow * (lp1 - v);
+      lp2 = lp1 + aLow * (lp2 - lp1);
+      lpHigh = v + aHigh * (lpHigh - v);
+      const l = Math.abs(lp2);
+      const m = Math.abs(lpHigh - lp2);
+      const h = Math.abs(v - lpHigh);
+      if (l > mLow) mLow = l;
+      if (m > mMid) mMid = m;
+      if (h > mHigh) mHigh = h;
     }
+    low[b] = mLow;
+    mid[b] = mMid;
+    high[b] = mHigh;
   }
-  const rms = Math.sqrt(sum / Math.max(1, count));
-  return rms;
+  return { low, mid, high, blockDuration };
 }
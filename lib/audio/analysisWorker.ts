@@ -0,0 +1,22 @@
+// Web Worker entry for TrackAnalysis: receives transferred channel data and streams results back.
+
+import { analysisSteps } from './AnalysisSteps';
+import type { AnalysisMessage, AnalysisRequest } from './AnalysisSteps';
+import { pcmSource } from './TrackAnalyzer';
+
+const scope = self as unknown as Worker;
+
+function post(msg: AnalysisMessage) {
+  if (msg.type === 'overview') scope.postMessage(msg, [msg.peaks.buffer]);
+  else if (msg.type === 'bands') scope.postMessage(msg, [msg.bands.low.buffer, msg.bands.mid.buffer, msg.bands.high.buffer]);
+  else scope.postMessage(msg);
+}
+
+scope.onmessage = async (e: MessageEvent<AnalysisRequest>) => {
+  const { channels, sampleRate } = e.data;
+  try {
+    for await (const msg of analysisSteps(pcmSource(channels, sampleRate))) post(msg);
+  } catch (err) {
+    post({ type: 'error', message: String(err) });
+  }
+};
@@ -1,6 +1,10 @@
 import AudioEngine from './AudioEngine';
+import Automation from './Automation';
 
 // singleton instance used across the app
 const audioEngine = new AudioEngine();
 
+// records and replays the control changes applied to the engine
+export const automation = new Automation(audioEngine);
+
 export default audioEngine;
@@ -0,0 +1,41 @@
+import EffectUnit, { MIX_PARAM } from './EffectUnit';
+import type { ParamSpec } from './EffectUnit';
+
+// amplitude quantization through a staircase wave-shaper curve, with drive into it
+export default class Bitcrusher extends EffectUnit {
+  readonly type = 'bitcrusher' as const;
+  readonly name = 'Bitcrusher';
+  readonly params: ParamSpec[] = [
+    { id: 'bits', label: 'Bits', min: 2, max: 12, step: 1, default: 6, unit: 'bits' },
+    { id: 'drive', label: 'Drive', min: 1, max: 8, step: 0.1, default: 1.5, unit: 'x' },
+    { id: MIX_PARAM, label: 'Mix', min: 0, max: 1, step: 0.01, default: 1, unit: '%' }
+  ];
+
+  private drive: GainNode;
+  private shaper: WaveShaperNode;
+
+  constructor(ctx: BaseAudioContext) {
+    super(ctx);
+    this.drive = ctx.createGain();
+    this.shaper = ctx.createWaveShaper();
+    this.input.connect(this.drive);
+    this.drive.connect(this.shaper);
+    this.shaper.connect(this.wet);
+    this.init();
+  }
+
+  protected apply(id: string, value: number) {
+    if (id === 'bits') this.shaper.curve = crushCurve(value);
+    else if (id === 'drive') this.ramp(this.drive.gain, value);
+  }
+}
+
+function crushCurve(bits: number, size = 8192) {
+  const levels = Math.pow(2, bits - 1);
+  const curve = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const x = (i / (size - 1)) * 2 - 1;
+    curve[i] = Math.round(x * levels) / levels;
+  }
+  return curve;
+}
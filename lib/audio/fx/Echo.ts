@@ -0,0 +1,39 @@
+import EffectUnit, { MIX_PARAM } from './EffectUnit';
+import type { ParamSpec } from './EffectUnit';
+
+// beat-synced feedback delay with a darkening filter in the loop
+export default class Echo extends EffectUnit {
+  readonly type = 'echo' as const;
+  readonly name = 'Echo';
+  readonly params: ParamSpec[] = [
+    { id: 'time', label: 'Time', min: 0.125, max: 2, step: 0.125, default: 0.75, unit: 'beats', options: [0.125, 0.25, 0.5, 0.75, 1, 2] },
+    { id: 'feedback', label: 'Feedback', min: 0, max: 0.9, step: 0.01, default: 0.45, unit: '%' },
+    { id: 'tone', label: 'Tone', min: 500, max: 12000, step: 100, default: 5000, unit: 'Hz' },
+    { id: MIX_PARAM, label: 'Mix', min: 0, max: 1, step: 0.01, default: 0.35, unit: '%' }
+  ];
+
+  private delay: DelayNode;
+  private feedback: GainNode;
+  private tone: BiquadFilterNode;
+
+  constructor(ctx: BaseAudioContext) {
+    super(ctx);
+    this.additive = true;
+    this.delay = ctx.createDelay(4);
+    this.feedback = ctx.createGain();
+    this.tone = ctx.createBiquadFilter();
+    this.tone.type = 'lowpass';
+    this.input.connect(this.delay);
+    this.delay.connect(this.tone);
+    this.tone.connect(this.feedback);
+    this.feedback.connect(this.delay);
+    this.tone.connect(this.wet);
+    this.init();
+  }
+
+  protected apply(id: string, value: number) {
+    if (id === 'time') this.ramp(this.delay.delayTime, Math.min(4, this.seconds(value)));
+    else if (id === 'feedback') this.ramp(this.feedback.gain, value);
+    else if (id === 'tone') this.ramp(this.tone.frequency, value);
+  }
+}
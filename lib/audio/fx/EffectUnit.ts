@@ -0,0 +1,109 @@
+/**
+ * Base class for FX rack units.
+ * A unit owns an input and an output node with a dry path between them; subclasses build their
+ * processing chain from `input` into `wet` and declare their parameters as a schema the UI renders.
+ * Parameters with unit 'beats' are stored in beats and converted to seconds from the deck tempo.
+ */
+
+export type EffectType = 'echo' | 'flanger' | 'phaser' | 'bitcrusher' | 'gate' | 'reverb';
+
+export type ParamSpec = {
+  id: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+  unit?: 'beats' | 'Hz' | '%' | 'bits' | 's' | 'x';
+  // fixed choices (beat divisions) instead of a continuous range, optionally with display names
+  options?: number[];
+  labels?: string[];
+};
+
+// every unit exposes its wet/dry balance under this id
+export const MIX_PARAM = 'mix';
+
+export default abstract class EffectUnit {
+  abstract readonly type: EffectType;
+  abstract readonly name: string;
+  abstract readonly params: ParamSpec[];
+
+  readonly input: GainNode;
+  readonly output: GainNode;
+  protected readonly dry: GainNode;
+  protected readonly wet: GainNode;
+  protected values: Record<string, number> = {};
+  protected bpm = 120;
+  // send-style units (echo, reverb) keep the dry signal at full level and add the wet on top
+  protected additive = false;
+  private enabled = true;
+
+  constructor(protected readonly ctx: BaseAudioContext) {
+    this.input = ctx.createGain();
+    this.output = ctx.createGain();
+    this.dry = ctx.createGain();
+    this.wet = ctx.createGain();
+    this.input.connect(this.dry);
+    this.dry.connect(this.output);
+    this.wet.connect(this.output);
+  }
+
+  // subclasses call this once their nodes exist
+  protected init() {
+    for (const p of this.params) this.values[p.id] = p.default;
+    for (const p of this.params) if (p.id !== MIX_PARAM) this.apply(p.id, p.default);
+    this.updateMix();
+  }
+
+  protected abstract apply(id: string, value: number): void;
+
+  setParam(id: string, value: number) {
+    const spec = this.params.find((p) => p.id === id);
+    if (!spec) return;
+    let v = Math.max(spec.min, Math.min(spec.max, value));
+    // stepped parameters (e.g. the reverb space, an index) only take one of their options
+    if (spec.options?.length) v = spec.options.reduce((best, o) => (Math.abs(o - v) < Math.abs(best - v) ? o : best));
+    this.values[id] = v;
+    if (id === MIX_PARAM) this.updateMix();
+    else this.apply(id, v);
+  }
+
+  getValues() {
+    return { ...this.values };
+  }
+
+  setEnabled(on: boolean) {
+    this.enabled = on;
+    this.updateMix();
+  }
+
+  isEnabled() {
+    return this.enabled;
+  }
+
+  // effective deck tempo; beat-based parameters are re-applied
+  setBpm(bpm: number) {
+    if (!(bpm > 0) || Math.abs(bpm - this.bpm) < 1e-6) return;
+    this.bpm = bpm;
+    for (const p of this.params) if (p.unit === 'beats') this.apply(p.id, this.values[p.id]);
+  }
+
+  protected seconds(beats: number) {
+    return (beats * 60) / this.bpm;
+  }
+
+  protected ramp(param: AudioParam, value: number) {
+    param.setTargetAtTime(value, this.ctx.currentTime, 0.02);
+  }
+
+  private updateMix() {
+    const mix = this.enabled ? this.values[MIX_PARAM] ?? 0 : 0;
+    this.ramp(this.wet.gain, mix);
+    this.ramp(this.dry.gain, this.additive ? 1 : 1 - mix);
+  }
+
+  dispose() {
+    this.input.disconnect();
+    this.output.disconnect();
+  }
+}
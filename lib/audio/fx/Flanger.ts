@@ -0,0 +1,52 @@
+import EffectUnit, { MIX_PARAM } from './EffectUnit';
+import type { ParamSpec } from './EffectUnit';
+
+const BASE_DELAY = 0.003; // seconds
+const MAX_SWEEP = 0.0025; // seconds of modulation at full depth
+
+// short modulated delay with feedback; one LFO sweep lasts `period` beats
+export default class Flanger extends EffectUnit {
+  readonly type = 'flanger' as const;
+  readonly name = 'Flanger';
+  readonly params: ParamSpec[] = [
+    { id: 'period', label: 'Period', min: 1, max: 32, step: 1, default: 8, unit: 'beats', options: [1, 2, 4, 8, 16, 32] },
+    { id: 'depth', label: 'Depth', min: 0, max: 1, step: 0.01, default: 0.7, unit: '%' },
+    { id: 'feedback', label: 'Feedback', min: 0, max: 0.9, step: 0.01, default: 0.5, unit: '%' },
+    { id: MIX_PARAM, label: 'Mix', min: 0, max: 1, step: 0.01, default: 0.5, unit: '%' }
+  ];
+
+  private delay: DelayNode;
+  private feedback: GainNode;
+  private lfo: OscillatorNode;
+  private lfoDepth: GainNode;
+
+  constructor(ctx: BaseAudioContext) {
+    super(ctx);
+    this.delay = ctx.createDelay(0.05);
+    this.delay.delayTime.value = BASE_DELAY;
+    this.feedback = ctx.createGain();
+    this.lfo = ctx.createOscillator();
+    this.lfoDepth = ctx.createGain();
+    this.lfo.connect(this.lfoDepth);
+    this.lfoDepth.connect(this.delay.delayTime);
+    this.input.connect(this.delay);
+    this.delay.connect(this.feedback);
+    this.feedback.connect(this.delay);
+    this.delay.connect(this.wet);
+    this.lfo.start();
+    this.init();
+  }
+
+  protected apply(id: string, value: number) {
+    if (id === 'period') this.ramp(this.lfo.frequency, 1 / this.seconds(value));
+    else if (id === 'depth') this.ramp(this.lfoDepth.gain, value * MAX_SWEEP);
+    else if (id === 'feedback') this.ramp(this.feedback.gain, value);
+  }
+
+  dispose() {
+    try {
+      this.lfo.stop();
+    } catch (e) {}
+    super.dispose();
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Per-deck chain of effect units: input -> unit 1 -> unit 2 -> ... -> output.
+ * Units are addressed by a stable id so the UI can reorder them without index bookkeeping.
+ */
+
+import type EffectUnit from './EffectUnit';
+import type { EffectType, ParamSpec } from './EffectUnit';
+import Echo from './Echo';
+import Flanger from './Flanger';
+import Phaser from './Phaser';
+import Bitcrusher from './Bitcrusher';
+import Gate from './Gate';
+import Reverb from './Reverb';
+import type ImpulseLibrary from './ImpulseLibrary';
+import type { UserImpulse } from './ImpulseLibrary';
+
+export const EFFECT_TYPES: Array<{ type: EffectType; name: string }> = [
+  { type: 'echo', name: 'Echo' },
+  { type: 'flanger', name: 'Flanger' },
+  { type: 'phaser', name: 'Phaser' },
+  { type: 'bitcrusher', name: 'Bitcrusher' },
+  { type: 'gate', name: 'Gate' },
+  { type: 'reverb', name: 'Reverb' }
+];
+
+export const MAX_FX_UNITS = 4;
+
+export type FxUnitState = {
+  id: number;
+  type: EffectType;
+  name: string;
+  enabled: boolean;
+  params: ParamSpec[];
+  values: Record<string, number>;
+  // name of the loaded impulse response; undefined for units that don't take one
+  impulse?: string | null;
+};
+
+function createEffect(ctx: BaseAudioContext, type: EffectType, impulses: ImpulseLibrary): EffectUnit {
+  switch (type) {
+    case 'echo':
+      return new Echo(ctx);
+    case 'flanger':
+      return new Flanger(ctx);
+    case 'phaser':
+      return new Phaser(ctx);
+    case 'bitcrusher':
+      return new Bitcrusher(ctx);
+    case 'gate':
+      return new Gate(ctx);
+    case 'reverb':
+      return new Reverb(ctx, impulses);
+  }
+}
+
+export default class FxRack {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private slots: Array<{ id: number; unit: EffectUnit }> = [];
+  private nextId = 1;
+  private bpm = 120;
+
+  constructor(private readonly ctx: BaseAudioContext, private readonly impulses: ImpulseLibrary) {
+    this.input = ctx.createGain();
+    this.output = ctx.createGain();
+    this.rewire();
+  }
+
+  // returns the new unit's id, or null when the rack is full
+  add(type: EffectType) {
+    if (this.slots.length >= MAX_FX_UNITS) return null;
+    const unit = createEffect(this.ctx, type, this.impulses);
+    unit.setBpm(this.bpm);
+    const id = this.nextId++;
+    this.slots.push({ id, unit });
+    this.rewire();
+    return id;
+  }
+
+  remove(id: number) {
+    const slot = this.slots.find((s) => s.id === id);
+    if (!slot) return;
+    this.slots = this.slots.filter((s) => s !== slot);
+    this.rewire();
+    slot.unit.dispose();
+  }
+
+  move(id: number, index: number) {
+    const from = this.slots.findIndex((s) => s.id === id);
+    if (from < 0) return;
+    const to = Math.max(0, Math.min(this.slots.length - 1, index));
+    if (to === from) return;
+    const [slot] = this.slots.splice(from, 1);
+    this.slots.splice(to, 0, slot);
+    this.rewire();
+  }
+
+  setParam(id: number, param: string, value: number) {
+    this.slots.find((s) => s.id === id)?.unit.setParam(param, value);
+  }
+
+  setEnabled(id: number, on: boolean) {
+    this.slots.find((s) => s.id === id)?.unit.setEnabled(on);
+  }
+
+  setImpulse(id: number, ir: UserImpulse) {
+    const unit = this.slots.find((s) => s.id === id)?.unit;
+    if (unit instanceof Reverb) unit.setUserImpulse(ir);
+  }
+
+  // effective deck tempo, used by beat-based parameters
+  setBpm(bpm: number) {
+    this.bpm = bpm;
+    this.slots.forEach((s) => s.unit.setBpm(bpm));
+  }
+
+  getState(): FxUnitState[] {
+    return this.slots.map(({ id, unit }) => ({
+      id,
+      type: unit.type,
+      name: unit.name,
+      enabled: unit.isEnabled(),
+      params: unit.params,
+      values: unit.getValues(),
+      impulse: unit instanceof Reverb ? unit.getImpulseName() : undefined
+    }));
+  }
+
+  private rewire() {
+    this.input.disconnect();
+    this.slots.forEach((s) => s.unit.output.disconnect());
+    let prev: AudioNode = this.input;
+    for (const s of this.slots) {
+      prev.connect(s.unit.input);
+      prev = s.unit.output;
+    }
+    prev.connect(this.output);
+  }
+}
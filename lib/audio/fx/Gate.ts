@@ -0,0 +1,53 @@
+import EffectUnit, { MIX_PARAM } from './EffectUnit';
+import type { ParamSpec } from './EffectUnit';
+
+// trance gate: a beat-synced square LFO chops the signal; one on/off cycle lasts `length` beats
+export default class Gate extends EffectUnit {
+  readonly type = 'gate' as const;
+  readonly name = 'Gate';
+  readonly params: ParamSpec[] = [
+    { id: 'length', label: 'Length', min: 0.125, max: 1, step: 0.125, default: 0.25, unit: 'beats', options: [0.125, 0.25, 0.5, 1] },
+    { id: 'depth', label: 'Depth', min: 0, max: 1, step: 0.01, default: 0.9, unit: '%' },
+    { id: MIX_PARAM, label: 'Mix', min: 0, max: 1, step: 0.01, default: 1, unit: '%' }
+  ];
+
+  private vca: GainNode;
+  private lfo: OscillatorNode;
+  private smooth: BiquadFilterNode;
+  private lfoDepth: GainNode;
+
+  constructor(ctx: BaseAudioContext) {
+    super(ctx);
+    this.vca = ctx.createGain();
+    this.lfo = ctx.createOscillator();
+    this.lfo.type = 'square';
+    // rounds the square's edges so the gate doesn't click
+    this.smooth = ctx.createBiquadFilter();
+    this.smooth.type = 'lowpass';
+    this.smooth.frequency.value = 120;
+    this.lfoDepth = ctx.createGain();
+    this.lfo.connect(this.smooth);
+    this.smooth.connect(this.lfoDepth);
+    this.lfoDepth.connect(this.vca.gain);
+    this.input.connect(this.vca);
+    this.vca.connect(this.wet);
+    this.lfo.start();
+    this.init();
+  }
+
+  protected apply(id: string, value: number) {
+    if (id === 'length') this.ramp(this.lfo.frequency, 1 / this.seconds(value));
+    else if (id === 'depth') {
+      // gain swings between 1 - depth and 1
+      this.ramp(this.vca.gain, 1 - value / 2);
+      this.ramp(this.lfoDepth.gain, value / 2);
+    }
+  }
+
+  dispose() {
+    try {
+      this.lfo.stop();
+    } catch (e) {}
+    super.dispose();
+  }
+}
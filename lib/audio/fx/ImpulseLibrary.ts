@@ -0,0 +1,86 @@
+/**
+ * Reverb impulse responses shared by every deck's reverb units.
+ * Presets are generated from (space, decay, damping) and kept in a small LRU cache;
+ * user IR files are decoded once and cached by content hash, so loading the same file twice is free.
+ */
+
+import { hashArrayBuffer } from '../../utils/hash';
+
+export type ReverbSpace = 'room' | 'hall' | 'plate';
+export const REVERB_SPACES: ReverbSpace[] = ['room', 'hall', 'plate'];
+
+export type UserImpulse = { id: string; name: string; buffer: AudioBuffer };
+
+// character of each space: diffuse build-up time, early reflection taps and their spread, and how bright it stays
+const SPACES: Record<ReverbSpace, { attack: number; taps: number; spread: number; darkening: number }> = {
+  room: { attack: 0.004, taps: 10, spread: 0.035, darkening: 1 },
+  hall: { attack: 0.03, taps: 6, spread: 0.09, darkening: 0.8 },
+  plate: { attack: 0, taps: 0, spread: 0, darkening: 0.45 }
+};
+
+const PRESET_CACHE_SIZE = 12;
+
+export default class ImpulseLibrary {
+  private presets = new Map<string, AudioBuffer>();
+  private files = new Map<string, UserImpulse>();
+
+  constructor(private readonly ctx: BaseAudioContext) {}
+
+  // decay is the RT60 in seconds, damping 0..1 how fast highs die out relative to lows
+  preset(space: ReverbSpace, decay: number, damping: number) {
+    const key = `${space}:${decay.toFixed(2)}:${damping.toFixed(2)}`;
+    let buffer = this.presets.get(key);
+    if (buffer) {
+      // refresh LRU position
+      this.presets.delete(key);
+    } else {
+      buffer = generateImpulse(this.ctx, space, decay, damping);
+    }
+    this.presets.set(key, buffer);
+    if (this.presets.size > PRESET_CACHE_SIZE) this.presets.delete(this.presets.keys().next().value as string);
+    return buffer;
+  }
+
+  async loadFile(file: File) {
+    const data = await file.arrayBuffer();
+    const id = await hashArrayBuffer(data);
+    const cached = this.files.get(id);
+    if (cached) return cached;
+    const buffer = await this.ctx.decodeAudioData(data);
+    const ir: UserImpulse = { id, name: file.name, buffer };
+    this.files.set(id, ir);
+    return ir;
+  }
+
+  getUserImpulses() {
+    return Array.from(this.files.values());
+  }
+}
+
+function generateImpulse(ctx: BaseAudioContext, space: ReverbSpace, decay: number, damping: number) {
+  const shape = SPACES[space];
+  const rate = ctx.sampleRate;
+  const length = Math.max(1, Math.floor(rate * decay));
+  const impulse = ctx.createBuffer(2, length, rate);
+  for (let c = 0; c < 2; c++) {
+    const data = impulse.getChannelData(c);
+    // diffuse tail: exponentially decaying noise (-60 dB at `decay`), low-passed harder as it ages
+    let lp = 0;
+    for (let j = 0; j < length; j++) {
+      const t = j / rate;
+      const env = Math.pow(10, (-3 * t) / decay);
+      const build = shape.attack > 0 ? Math.min(1, t / shape.attack) : 1;
+      const a = Math.min(0.98, damping * shape.darkening * Math.sqrt(t / decay));
+      const n = Math.random() * 2 - 1;
+      lp = n + a * (lp - n);
+      data[j] = lp * env * build;
+    }
+    // early reflections: a few discrete taps, different per channel for width
+    for (let k = 0; k < shape.taps; k++) {
+      const t = (0.002 + Math.random() * shape.spread) * (1 + k / shape.taps);
+      const j = Math.floor(t * rate);
+      if (j < length) data[j] += (Math.random() < 0.5 ? -1 : 1) * 0.8 * Math.pow(10, (-3 * t) / decay);
+    }
+  }
+  return impulse;
+}
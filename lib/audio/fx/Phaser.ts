@@ -0,0 +1,54 @@
+import EffectUnit, { MIX_PARAM } from './EffectUnit';
+import type { ParamSpec } from './EffectUnit';
+
+const STAGES = 4;
+const CENTER_HZ = 900;
+
+// all-pass stages swept by a beat-synced LFO
+export default class Phaser extends EffectUnit {
+  readonly type = 'phaser' as const;
+  readonly name = 'Phaser';
+  readonly params: ParamSpec[] = [
+    { id: 'period', label: 'Period', min: 1, max: 32, step: 1, default: 4, unit: 'beats', options: [1, 2, 4, 8, 16, 32] },
+    { id: 'depth', label: 'Depth', min: 0, max: 1, step: 0.01, default: 0.8, unit: '%' },
+    { id: 'resonance', label: 'Reso', min: 0.5, max: 10, step: 0.1, default: 2, unit: 'x' },
+    { id: MIX_PARAM, label: 'Mix', min: 0, max: 1, step: 0.01, default: 0.5, unit: '%' }
+  ];
+
+  private stages: BiquadFilterNode[] = [];
+  private lfo: OscillatorNode;
+  private lfoDepth: GainNode;
+
+  constructor(ctx: BaseAudioContext) {
+    super(ctx);
+    this.lfo = ctx.createOscillator();
+    this.lfoDepth = ctx.createGain();
+    this.lfo.connect(this.lfoDepth);
+    let prev: AudioNode = this.input;
+    for (let i = 0; i < STAGES; i++) {
+      const f = ctx.createBiquadFilter();
+      f.type = 'allpass';
+      f.frequency.value = CENTER_HZ;
+      this.lfoDepth.connect(f.frequency);
+      prev.connect(f);
+      prev = f;
+      this.stages.push(f);
+    }
+    prev.connect(this.wet);
+    this.lfo.start();
+    this.init();
+  }
+
+  protected apply(id: string, value: number) {
+    if (id === 'period') this.ramp(this.lfo.frequency, 1 / this.seconds(value));
+    else if (id === 'depth') this.ramp(this.lfoDepth.gain, value * CENTER_HZ * 0.8);
+    else if (id === 'resonance') this.stages.forEach((f) => this.ramp(f.Q, value));
+  }
+
+  dispose() {
+    try {
+      this.lfo.stop();
+    } catch (e) {}
+    super.dispose();
+  }
+}
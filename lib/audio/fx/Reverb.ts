@@ -0,0 +1,83 @@
+import EffectUnit, { MIX_PARAM } from './EffectUnit';
+import type { ParamSpec } from './EffectUnit';
+import { REVERB_SPACES } from './ImpulseLibrary';
+import type ImpulseLibrary from './ImpulseLibrary';
+import type { UserImpulse } from './ImpulseLibrary';
+
+// `space` option index that selects the user-loaded impulse response
+const USER_SPACE = REVERB_SPACES.length;
+// a decay or damping sweep settles for this long before its impulse is generated on the main thread
+const IMPULSE_SETTLE_MS = 150;
+
+// convolution reverb on shared, cached impulses (generated presets or a user IR), with a beat-synced pre-delay
+export default class Reverb extends EffectUnit {
+  readonly type = 'reverb' as const;
+  readonly name = 'Reverb';
+  readonly params: ParamSpec[] = [
+    { id: 'space', label: 'Space', min: 0, max: USER_SPACE, step: 1, default: 1, options: [0, 1, 2, USER_SPACE], labels: ['Room', 'Hall', 'Plate', 'IR'] },
+    { id: 'decay', label: 'Decay', min: 0.3, max: 8, step: 0.1, default: 2.5, unit: 's' },
+    { id: 'predelay', label: 'Pre-delay', min: 0, max: 0.5, step: 0.0625, default: 0, unit: 'beats', options: [0, 0.0625, 0.125, 0.25, 0.5] },
+    { id: 'damping', label: 'Damping', min: 0, max: 1, step: 0.05, default: 0.5, unit: '%' },
+    { id: MIX_PARAM, label: 'Mix', min: 0, max: 1, step: 0.01, default: 0.3, unit: '%' }
+  ];
+
+  private predelay: DelayNode;
+  private convolver: ConvolverNode;
+  private userImpulse: UserImpulse | null = null;
+  private impulseTimer: number | null = null;
+
+  constructor(ctx: BaseAudioContext, private readonly impulses: ImpulseLibrary) {
+    super(ctx);
+    this.additive = true;
+    this.predelay = ctx.createDelay(2);
+    this.convolver = ctx.createConvolver();
+    this.input.connect(this.predelay);
+    this.predelay.connect(this.convolver);
+    this.convolver.connect(this.wet);
+    this.init();
+  }
+
+  // switches the unit to a user impulse response
+  setUserImpulse(ir: UserImpulse) {
+    this.userImpulse = ir;
+    this.values.space = USER_SPACE;
+    this.updateImpulse();
+  }
+
+  getImpulseName() {
+    return this.userImpulse?.name ?? null;
+  }
+
+  protected apply(id: string, value: number) {
+    if (id === 'predelay') this.ramp(this.predelay.delayTime, Math.min(2, this.seconds(value)));
+    else if (id === 'space' || !this.convolver.buffer) this.updateImpulse();
+    else this.scheduleImpulse();
+  }
+
+  // knob drags step through many decay/damping values; only the one it stops on gets an impulse
+  private scheduleImpulse() {
+    if (this.impulseTimer) clearTimeout(this.impulseTimer);
+    this.impulseTimer = window.setTimeout(() => {
+      this.impulseTimer = null;
+      this.updateImpulse();
+    }, IMPULSE_SETTLE_MS);
+  }
+
+  // decay and damping shape the generated presets; a user IR is used as-is
+  private updateImpulse() {
+    if (this.impulseTimer) {
+      clearTimeout(this.impulseTimer);
+      this.impulseTimer = null;
+    }
+    const space = this.values.space;
+    let buffer: AudioBuffer | null;
+    if (space === USER_SPACE) buffer = this.userImpulse?.buffer ?? null;
+    else buffer = this.impulses.preset(REVERB_SPACES[space], this.values.decay, this.values.damping);
+    if (buffer && this.convolver.buffer !== buffer) this.convolver.buffer = buffer;
+  }
+
+  dispose() {
+    if (this.impulseTimer) clearTimeout(this.impulseTimer);
+    super.dispose();
+  }
+}
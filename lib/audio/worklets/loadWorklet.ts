@@ -0,0 +1,28 @@
+/**
+ * Registers AudioWorklet processors from inline source.
+ * Modules are loaded once per AudioContext through a Blob URL so they ship with the bundle.
+ */
+
+const loaded = new WeakMap<BaseAudioContext, Map<string, Promise<void>>>();
+
+export function supportsWorklets(ctx: BaseAudioContext) {
+  return typeof (ctx as AudioContext).audioWorklet !== 'undefined' && typeof AudioWorkletNode !== 'undefined';
+}
+
+export function loadWorklet(ctx: BaseAudioContext, name: string, source: string): Promise<void> {
+  if (!supportsWorklets(ctx)) return Promise.reject(new Error('AudioWorklet not supported'));
+  let modules = loaded.get(ctx);
+  if (!modules) {
+    modules = new Map();
+    loaded.set(ctx, modules);
+  }
+  const existing = modules.get(name);
+  if (existing) return existing;
+
+  const url = URL.createObjectURL(new Blob([source], { type: 'application/javascript' }));
+  const p = ctx.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+  modules.set(name, p);
+  // allow a retry if loading failed
+  p.catch(() => modules!.delete(name));
+  return p;
+}
@@ -0,0 +1,73 @@
+/**
+ * Delay-line pitch shifter used for key-lock.
+ * Two read taps sweep across a short window with a raised-cosine crossfade; `pitch` is the
+ * frequency ratio applied to the input (1 = unchanged, in which case the input passes straight through).
+ */
+
+export const PITCH_SHIFTER = 'pitch-shifter';
+
+export const PITCH_SHIFTER_SOURCE = `
+class PitchShifterProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{ name: 'pitch', defaultValue: 1, minValue: 0.25, maxValue: 4, automationRate: 'k-rate' }];
+  }
+
+  constructor() {
+    super();
+    this.size = 16384; // power of two ring buffer
+    this.window = 2048; // samples swept by each tap
+    this.rings = [];
+    this.write = 0;
+    this.phase = 0;
+  }
+
+  read(ring, delay) {
+    let pos = this.write - delay;
+    if (pos < 0) pos += this.size;
+    const i = Math.floor(pos);
+    const frac = pos - i;
+    const a = ring[i & (this.size - 1)];
+    const b = ring[(i + 1) & (this.size - 1)];
+    return a + (b - a) * frac;
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0] || [];
+    const output = outputs[0];
+    const pitch = parameters.pitch[0];
+    const bypass = Math.abs(pitch - 1) < 1e-4;
+    while (this.rings.length < output.length) this.rings.push(new Float32Array(this.size));
+    const frames = output[0] ? output[0].length : 128;
+    const step = (1 - pitch) / this.window;
+
+    for (let i = 0; i < frames; i++) {
+      for (let c = 0; c < output.length; c++) {
+        const src = input[c] || input[0];
+        this.rings[c][this.write] = src ? src[i] : 0;
+      }
+
+      if (bypass) {
+        for (let c = 0; c < output.length; c++) output[c][i] = this.rings[c][this.write];
+      } else {
+        const p1 = this.phase;
+        const p2 = (p1 + 0.5) % 1;
+        const g1 = Math.sin(Math.PI * p1) ** 2;
+        const g2 = Math.sin(Math.PI * p2) ** 2;
+        const d1 = 1 + p1 * this.window;
+        const d2 = 1 + p2 * this.window;
+        for (let c = 0; c < output.length; c++) {
+          output[c][i] = this.read(this.rings[c], d1) * g1 + this.read(this.rings[c], d2) * g2;
+        }
+        this.phase += step;
+        if (this.phase >= 1) this.phase -= 1;
+        else if (this.phase < 0) this.phase += 1;
+      }
+
+      this.write = (this.write + 1) & (this.size - 1);
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PITCH_SHIFTER}', PitchShifterProcessor);
+`;
@@ -0,0 +1,66 @@
+/**
+ * PCM capture processor for MixRecorder.
+ * While recording it posts `{ channels, peak }` batches of copied samples to the main thread.
+ * Control messages: 'start' | 'pause' | 'resume' | 'stop' (stop flushes the pending batch).
+ */
+
+export const RECORDER = 'mix-recorder';
+
+export const RECORDER_SOURCE = `
+class MixRecorderProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.recording = false;
+    this.batchSize = 4096;
+    this.pending = [];
+    this.filled = 0;
+    this.peak = 0;
+    this.port.onmessage = (e) => {
+      const cmd = e.data;
+      if (cmd === 'start' || cmd === 'resume') this.recording = true;
+      else if (cmd === 'pause') {
+        this.recording = false;
+        this.flush();
+      } else if (cmd === 'stop') {
+        this.recording = false;
+        this.flush();
+        this.port.postMessage({ done: true });
+      }
+    };
+  }
+
+  flush() {
+    if (this.filled === 0) return;
+    const channels = this.pending.map((c) => c.slice(0, this.filled));
+    this.port.postMessage({ channels, peak: this.peak }, channels.map((c) => c.buffer));
+    this.pending = [];
+    this.filled = 0;
+    this.peak = 0;
+  }
+
+  process(inputs) {
+    if (!this.recording) return true;
+    const input = inputs[0] || [];
+    const count = Math.max(2, input.length);
+    const frames = input[0] ? input[0].length : 128;
+    if (this.pending.length === 0) {
+      for (let c = 0; c < count; c++) this.pending.push(new Float32Array(this.batchSize));
+    }
+    for (let c = 0; c < this.pending.length; c++) {
+      const src = input[c] || input[0];
+      const dst = this.pending[c];
+      for (let i = 0; i < frames; i++) {
+        const v = src ? src[i] : 0;
+        dst[this.filled + i] = v;
+        const a = v < 0 ? -v : v;
+        if (a > this.peak) this.peak = a;
+      }
+    }
+    this.filled += frames;
+    if (this.filled + frames > this.batchSize) this.flush();
+    return true;
+  }
+}
+
+registerProcessor('${RECORDER}', MixRecorderProcessor);
+`;
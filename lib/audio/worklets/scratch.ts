@@ -0,0 +1,151 @@
+/**
+ * Variable-rate buffer player used for scratching.
+ * Reads the deck's track at a signed playback rate that glides toward a target set from jog velocity,
+ * with cubic interpolation so slow and reverse movement stays smooth.
+ * Messages in: load { channels }, start { position, rate, at, loop }, rate { rate }, release { rate },
+ * ramp { rate?, target, duration } (linear, for brake and spinback), seek { position }, loop { loop }, stopAt { time }, stop.
+ * Messages out: position { position, rate, time } and, once a release or ramp has settled on its rate,
+ * released { position, rate, time }.
+ */
+
+export const SCRATCH = 'scratch-player';
+
+export const SCRATCH_SOURCE = `
+class ScratchProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.channels = [];
+    this.length = 0;
+    this.active = false;
+    this.pos = 0; // samples
+    this.rate = 0;
+    this.target = 0;
+    this.releasing = false;
+    this.slope = 0; // per-sample rate change of a linear ramp, 0 for an exponential glide
+    this.startAt = 0;
+    this.stopAt = null;
+    this.loop = null;
+    this.blocks = 0;
+    // glide time constants: tight while the hand drives the platter, slower when it lets go
+    this.follow = 1 - Math.exp(-1 / (sampleRate * 0.03));
+    this.glide = 1 - Math.exp(-1 / (sampleRate * 0.12));
+    this.port.onmessage = (e) => this.handle(e.data);
+  }
+
+  handle(m) {
+    switch (m.type) {
+      case 'load':
+        this.channels = m.channels;
+        this.length = m.channels[0] ? m.channels[0].length : 0;
+        this.active = false;
+        break;
+      case 'start':
+        this.pos = m.position * sampleRate;
+        this.rate = this.target = m.rate;
+        this.startAt = m.at || 0;
+        this.loop = m.loop || null;
+        this.releasing = false;
+        this.slope = 0;
+        this.stopAt = null;
+        this.active = true;
+        break;
+      case 'rate':
+        this.target = m.rate;
+        this.releasing = false;
+        this.slope = 0;
+        this.stopAt = null;
+        this.active = true;
+        break;
+      case 'release':
+        this.target = m.rate;
+        this.releasing = true;
+        this.slope = 0;
+        // a platter that already came to rest starts moving again
+        this.active = true;
+        break;
+      case 'ramp':
+        if (typeof m.rate === 'number') this.rate = m.rate;
+        this.target = m.target;
+        this.releasing = true;
+        this.slope = (m.target - this.rate) / Math.max(1, m.duration * sampleRate);
+        this.stopAt = null;
+        this.active = true;
+        break;
+      case 'seek':
+        this.pos = m.position * sampleRate;
+        break;
+      case 'loop':
+        this.loop = m.loop || null;
+        break;
+      case 'stopAt':
+        this.stopAt = m.time;
+        break;
+      case 'stop':
+        this.active = false;
+        break;
+    }
+  }
+
+  sample(data, i, f) {
+    const n = this.length;
+    const y0 = data[i > 0 ? i - 1 : 0];
+    const y1 = data[i];
+    const y2 = data[i + 1 < n ? i + 1 : n - 1];
+    const y3 = data[i + 2 < n ? i + 2 : n - 1];
+    // 4-point Hermite
+    const c1 = 0.5 * (y2 - y0);
+    const c2 = y0 - 2.5 * y1 + 2 * y2 - 0.5 * y3;
+    const c3 = 0.5 * (y3 - y0) + 1.5 * (y1 - y2);
+    return ((c3 * f + c2) * f + c1) * f + y1;
+  }
+
+  process(inputs, outputs) {
+    const output = outputs[0];
+    const frames = output[0] ? output[0].length : 128;
+    if (!this.active || this.length === 0) return true;
+    const k = this.releasing ? this.glide : this.follow;
+    const loopStart = this.loop ? this.loop.start * sampleRate : 0;
+    const loopEnd = this.loop ? this.loop.end * sampleRate : 0;
+    for (let j = 0; j < frames; j++) {
+      const t = currentTime + j / sampleRate;
+      if (t < this.startAt) continue;
+      if (this.stopAt !== null && t >= this.stopAt) {
+        this.active = false;
+        break;
+      }
+      if (this.slope !== 0) {
+        this.rate += this.slope;
+        if ((this.slope > 0 && this.rate > this.target) || (this.slope < 0 && this.rate < this.target)) this.rate = this.target;
+      } else {
+        this.rate += (this.target - this.rate) * k;
+      }
+      const i = Math.floor(this.pos);
+      if (i >= 0 && i < this.length) {
+        const f = this.pos - i;
+        for (let c = 0; c < output.length; c++) {
+          const data = this.channels[c] || this.channels[0];
+          output[c][j] = this.sample(data, i, f);
+        }
+      }
+      this.pos += this.rate;
+      if (loopEnd > loopStart && this.rate > 0 && this.pos >= loopEnd) this.pos -= loopEnd - loopStart;
+      if (this.pos < 0) this.pos = 0;
+      else if (this.pos > this.length) this.pos = this.length;
+    }
+    const time = currentTime + frames / sampleRate;
+    if (this.releasing && Math.abs(this.target - this.rate) < 0.005) {
+      this.rate = this.target;
+      this.releasing = false;
+      this.slope = 0;
+      // a stopped platter has nothing to hand over to
+      if (this.target === 0) this.active = false;
+      this.port.postMessage({ type: 'released', position: this.pos / sampleRate, rate: this.rate, time });
+    } else if (++this.blocks % 4 === 0) {
+      this.port.postMessage({ type: 'position', position: this.pos / sampleRate, rate: this.rate, time });
+    }
+    return true;
+  }
+}
+
+registerProcessor('${SCRATCH}', ScratchProcessor);
+`;
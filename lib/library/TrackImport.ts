@@ -0,0 +1,62 @@
+/**
+ * Imports audio files into the library: each new file is hashed, decoded and analyzed once,
+ * then stored with its metadata. Files already in the library are skipped.
+ */
+
+import type { AnalysisResult } from '../audio/TrackAnalysis';
+import { hashArrayBuffer } from '../utils/hash';
+import { getTrack, saveTrack } from './TrackStore';
+import type { TrackRecord } from './TrackStore';
+
+export type AnalyzedAudio = { duration: number; analysis: AnalysisResult };
+
+export type ImportProgress = { done: number; total: number; current: string | null };
+
+const AUDIO_EXT = /\.(mp3|wav|wave|ogg|oga|opus|flac|m4a|aac|aif|aiff|webm)$/i;
+
+export function isAudioFile(file: File) {
+  return file.type.startsWith('audio/') || AUDIO_EXT.test(file.name);
+}
+
+// "Artist - Title.mp3" -> { artist, title }; otherwise the bare file name is the title
+export function parseFileName(name: string) {
+  const base = name.replace(/\.[^.]+$/, '').replace(/_/g, ' ').trim();
+  const m = base.match(/^(.+?)\s+-\s+(.+)$/);
+  return m ? { artist: m[1].trim(), title: m[2].trim() } : { artist: null, title: base };
+}
+
+// imports sequentially to keep memory bounded; returns the number of tracks added
+export async function importTracks(files: File[], analyze: (data: ArrayBuffer) => Promise<AnalyzedAudio>, onProgress?: (p: ImportProgress) => void) {
+  const audio = files.filter(isAudioFile);
+  let added = 0;
+  for (let i = 0; i < audio.length; i++) {
+    const file = audio[i];
+    onProgress?.({ done: i, total: audio.length, current: file.name });
+    try {
+      const data = await file.arrayBuffer();
+      // hash before decoding: decodeAudioData detaches the array buffer
+      const hash = await hashArrayBuffer(data);
+      if (await getTrack(hash)) continue;
+      const { duration, analysis } = await analyze(data);
+      const { artist, title } = parseFileName(file.name);
+      const track: TrackRecord = {
+        id: hash,
+        fileName: file.name,
+        title,
+        artist,
+        size: file.size,
+        addedAt: Date.now(),
+        duration,
+        bpm: analysis.tempo?.bpm ?? null,
+        key: analysis.key?.camelot ?? null,
+        loudness: analysis.loudness
+      };
+      await saveTrack(track, file, analysis);
+      added++;
+    } catch (e) {
+      console.warn('Could not import', file.name, e);
+    }
+  }
+  onProgress?.({ done: audio.length, total: audio.length, current: null });
+  return added;
+}
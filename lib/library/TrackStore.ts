@@ -0,0 +1,123 @@
+/**
+ * Local track library in IndexedDB.
+ * Tracks are keyed by content hash (see utils/hash) and split over three stores so listing stays cheap:
+ * `tracks` holds metadata, `analysis` the cached analysis results, `files` the audio blobs.
+ */
+
+import type { AnalysisResult } from '../audio/TrackAnalysis';
+
+export type TrackRecord = {
+  id: string; // content hash
+  fileName: string;
+  title: string;
+  artist: string | null;
+  size: number;
+  addedAt: number;
+  duration: number;
+  bpm: number | null;
+  key: string | null; // Camelot code
+  loudness: number | null; // integrated LUFS
+};
+
+const DB_NAME = 'gesturedj-library';
+const DB_VERSION = 1;
+const TRACKS = 'tracks';
+const ANALYSIS = 'analysis';
+const FILES = 'files';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB not available'));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(TRACKS)) db.createObjectStore(TRACKS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(ANALYSIS)) db.createObjectStore(ANALYSIS);
+        if (!db.objectStoreNames.contains(FILES)) db.createObjectStore(FILES);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // allow a retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function done<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function committed(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function listTracks(): Promise<TrackRecord[]> {
+  const db = await openDb();
+  return done(db.transaction(TRACKS).objectStore(TRACKS).getAll());
+}
+
+export async function getTrack(id: string): Promise<TrackRecord | null> {
+  const db = await openDb();
+  return (await done(db.transaction(TRACKS).objectStore(TRACKS).get(id))) ?? null;
+}
+
+export async function getTrackFile(id: string): Promise<Blob | null> {
+  const db = await openDb();
+  return (await done(db.transaction(FILES).objectStore(FILES).get(id))) ?? null;
+}
+
+export async function getTrackAnalysis(id: string): Promise<AnalysisResult | null> {
+  const db = await openDb();
+  return (await done(db.transaction(ANALYSIS).objectStore(ANALYSIS).get(id))) ?? null;
+}
+
+export async function saveTrack(track: TrackRecord, file: Blob, analysis: AnalysisResult) {
+  const db = await openDb();
+  const tx = db.transaction([TRACKS, ANALYSIS, FILES], 'readwrite');
+  tx.objectStore(TRACKS).put(track);
+  tx.objectStore(ANALYSIS).put(analysis, track.id);
+  tx.objectStore(FILES).put(file, track.id);
+  await committed(tx);
+}
+
+// replaces a track's cached analysis (e.g. one made before loudness was measured) and its listed loudness
+export async function updateTrackAnalysis(id: string, analysis: AnalysisResult) {
+  const db = await openDb();
+  const tx = db.transaction([TRACKS, ANALYSIS], 'readwrite');
+  const tracks = tx.objectStore(TRACKS);
+  const req = tracks.get(id);
+  req.onsuccess = () => {
+    const track = req.result as TrackRecord | undefined;
+    if (track) tracks.put({ ...track, loudness: analysis.loudness });
+  };
+  tx.objectStore(ANALYSIS).put(analysis, id);
+  await committed(tx);
+}
+
+export async function deleteTrack(id: string) {
+  const db = await openDb();
+  const tx = db.transaction([TRACKS, ANALYSIS, FILES], 'readwrite');
+  tx.objectStore(TRACKS).delete(id);
+  tx.objectStore(ANALYSIS).delete(id);
+  tx.objectStore(FILES).delete(id);
+  await committed(tx);
+}
+
+// drag-and-drop payload type carrying a library track id (library rows -> decks)
+export const TRACK_DRAG_TYPE = 'application/x-gesturedj-track';
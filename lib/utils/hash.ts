@@ -0,0 +1,15 @@
+// hex digest of the given bytes; SHA-256 where SubtleCrypto exists (secure contexts), FNV-1a otherwise
+export async function hashArrayBuffer(data: ArrayBuffer) {
+  const subtle = typeof crypto !== 'undefined' ? crypto.subtle : undefined;
+  if (subtle) {
+    const digest = await subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+  }
+  const bytes = new Uint8Array(data);
+  let h = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    h ^= bytes[i];
+    h = Math.imul(h, 0x01000193);
+  }
+  return `${(h >>> 0).toString(16).padStart(8, '0')}-${bytes.length.toString(16)}`;
+}
@@ -0,0 +1,35 @@
+import type { BandWaveform } from '../audio/TrackAnalyzer';
+
+export type BandLevel = { low: number; mid: number; high: number };
+
+// max of each band over blocks [from, to)
+export function bandLevelAt(bands: BandWaveform, from: number, to: number): BandLevel {
+  const a = Math.max(0, Math.floor(from));
+  const b = Math.min(bands.low.length, Math.max(a + 1, Math.ceil(to)));
+  let low = 0;
+  let mid = 0;
+  let high = 0;
+  for (let i = a; i < b; i++) {
+    if (bands.low[i] > low) low = bands.low[i];
+    if (bands.mid[i] > mid) mid = bands.mid[i];
+    if (bands.high[i] > high) high = bands.high[i];
+  }
+  return { low, mid, high };
+}
+
+// loudest combined level in the track, used to scale bar heights
+export function bandNorm(bands: BandWaveform) {
+  let max = 0;
+  for (let i = 0; i < bands.low.length; i++) {
+    const v = bands.low[i] + bands.mid[i] + bands.high[i];
+    if (v > max) max = v;
+  }
+  return max || 1;
+}
+
+// lows → red, mids → green, highs → blue; kicks read as red, hats and breakdowns as blue/cyan
+export function bandColor({ low, mid, high }: BandLevel) {
+  const max = Math.max(low, mid, high) || 1;
+  const c = (v: number) => Math.round(40 + 215 * Math.sqrt(v / max));
+  return `rgb(${c(low)},${c(mid)},${c(high)})`;
+}
@@ -4,9 +4,14 @@
  * - EMA smoothing for live values
  * - localStorage persistence under `gesturedj:calibration`
  * - hold detection (300ms) for gestures
+ * - deck assignment by horizontal zones, one per active deck
+ * - finger taps (thumb tip touching another fingertip) for the sampler
+ * - thumb poses (fingers curled, thumb pointing up, down or sideways)
+ * - filter sweep from the hand's sideways offset within its deck zone
  */
 
 import { clamp } from '../utils/clamp';
+import type { DeckId } from '../audio/AudioEngine';
 
 export type FingerRanges = {
   thumb: { min: number; max: number } | null;
@@ -22,18 +27,46 @@ export type Calibration = {
   timestamp: number;
 };
 
+export type HandControls = {
+  assigned: boolean;
+  volume: number;
+  eq: { low: number; mid: number; high: number };
+  // -1 (low-pass) .. 0 (bypass) .. 1 (high-pass)
+  filter: number;
+  scrubDelta: number;
+};
+
+export type TapFinger = 'middle' | 'ring' | 'pinky';
+export type ThumbPose = 'up' | 'down' | 'side';
+
 const STORAGE_KEY = 'gesturedj:calibration';
 
+// the index finger is left out so thumb-index pinch keeps driving the loop gesture
+const TAP_FINGERS: Array<{ finger: TapFinger; tip: number }> = [
+  { finger: 'middle', tip: 12 },
+  { finger: 'ring', tip: 16 },
+  { finger: 'pinky', tip: 20 }
+];
+// touch/release distances (normalized frame units); the gap keeps a resting contact from retriggering
+const TAP_TOUCH = 0.05;
+const TAP_RELEASE = 0.08;
+
+// left-to-right zone order; with two decks this reduces to A | B, with four the outer zones are C and D
+const ZONE_ORDER: DeckId[] = ['C', 'A', 'B', 'D'];
+// share of the zone half-width around its centre where the filter stays bypassed
+const FILTER_DEADZONE = 0.4;
+
 export default class GestureMapper {
   private calibration: Calibration | null = null;
   private smoothingAlpha = 0.15; // EMA alpha
   private lastSmoothed: Record<string, number> = {};
   private holdTimers: Record<string, number | null> = {};
-  private lastAssigned: Record<number, 'A' | 'B' | null> = {};
+  private lastAssigned: Record<number, DeckId | null> = {};
+  private zones: DeckId[] = ['A', 'B'];
+  private tapDown: Record<string, boolean> = {};
 
-  // hysteresis thresholds for assignment
-  private leftThresh = 0.45;
-  private rightThresh = 0.55;
+  // hysteresis: a hand keeps its deck until it is this far past the zone edge
+  private zoneMargin = 0.05;
 
   constructor() {
     this.load();
@@ -124,6 +157,19 @@ export default class GestureMapper {
     return sm;
   }
 
+  // hand offset from its zone's centre mapped to a filter amount, flat inside the deadzone, with smoothing
+  mapFilterOffset(deck: DeckId, centroidX: number) {
+    const n = this.zones.length;
+    const zone = this.zones.indexOf(deck);
+    const offset = clamp((centroidX * n - zone - 0.5) * 2, -1, 1);
+    const mapped = Math.abs(offset) <= FILTER_DEADZONE ? 0 : Math.sign(offset) * (Math.abs(offset) - FILTER_DEADZONE) / (1 - FILTER_DEADZONE);
+    const key = `filter:${deck}`;
+    const prev = this.lastSmoothed[key] ?? mapped;
+    const sm = prev + this.smoothingAlpha * (mapped - prev);
+    this.lastSmoothed[key] = sm;
+    return sm;
+  }
+
   // hold detection: call when condition starts/continues, returns true when held for >= ms
   checkHold(id: string, condition: boolean, ms = 300) {
     if (condition) {
@@ -144,20 +190,76 @@ export default class GestureMapper {
     this.holdTimers = {};
   }
 
+  // decks that take part in gesture control; zones are equal-width strips across the frame
+  setDecks(ids: DeckId[]) {
+    const zones = ZONE_ORDER.filter((d) => ids.includes(d));
+    if (zones.join() === this.zones.join()) return;
+    this.zones = zones;
+    this.lastAssigned = {};
+  }
+
+  getZones() {
+    return this.zones.slice();
+  }
+
   // Decide deck assignment for a hand (centroid x). Uses hysteresis and previous assignment.
-  private decideDeckForHand(handIndex: number, centroidX: number) {
+  deckForHand(handIndex: number, centroidX: number): DeckId {
+    const n = this.zones.length;
     const prev = this.lastAssigned[handIndex] ?? null;
-    if (centroidX <= this.leftThresh) {
-      this.lastAssigned[handIndex] = 'A';
-      return 'A';
-    }
-    if (centroidX >= this.rightThresh) {
-      this.lastAssigned[handIndex] = 'B';
-      return 'B';
-    }
-    // in middle zone, keep previous if exists, otherwise choose nearest
-    if (prev) return prev;
-    return centroidX < 0.5 ? 'A' : 'B';
+    const prevZone = prev ? this.zones.indexOf(prev) : -1;
+    // near a boundary, keep the previous deck
+    if (prevZone >= 0 && centroidX >= prevZone / n - this.zoneMargin && centroidX <= (prevZone + 1) / n + this.zoneMargin) return prev as DeckId;
+    const deck = this.zones[clamp(Math.floor(centroidX * n), 0, n - 1)];
+    this.lastAssigned[handIndex] = deck;
+    return deck;
+  }
+
+  // Finger taps for a hand: returns the fingers whose tip touched the thumb tip this frame.
+  // Fires once on touch-down; the finger has to separate again before it can retrigger.
+  detectTaps(handIndex: number, landmarks: Array<{ x: number; y: number; z?: number }>, enabled = true) {
+    const thumb = landmarks[4];
+    const fired: TapFinger[] = [];
+    TAP_FINGERS.forEach(({ finger, tip }) => {
+      const id = `${handIndex}:${finger}`;
+      const p = landmarks[tip];
+      if (!thumb || !p) {
+        this.tapDown[id] = false;
+        return;
+      }
+      // while disabled (e.g. closing into a fist) treat the finger as down so it must separate first
+      if (!enabled) {
+        this.tapDown[id] = true;
+        return;
+      }
+      const d = Math.hypot(thumb.x - p.x, thumb.y - p.y);
+      if (!this.tapDown[id] && d < TAP_TOUCH) {
+        this.tapDown[id] = true;
+        fired.push(finger);
+      } else if (this.tapDown[id] && d > TAP_RELEASE) {
+        this.tapDown[id] = false;
+      }
+    });
+    return fired;
+  }
+
+  // Thumb pose: the four fingers curled (tip closer to the wrist than its middle joint) with the thumb
+  // stretched out; the direction is the thumb's own, so it works at any hand height.
+  thumbPose(landmarks: Array<{ x: number; y: number; z?: number }>): ThumbPose | null {
+    const wrist = landmarks[0];
+    const palm = wrist && landmarks[9] ? Math.hypot(landmarks[9].x - wrist.x, landmarks[9].y - wrist.y) : 0;
+    if (!palm) return null;
+    const dist = (i: number) => (landmarks[i] ? Math.hypot(landmarks[i].x - wrist.x, landmarks[i].y - wrist.y) : 0);
+    // fingertip / PIP pairs for index, middle, ring, pinky
+    const curled = [[8, 6], [12, 10], [16, 14], [20, 18]].every(([tip, pip]) => dist(tip) < dist(pip));
+    const base = landmarks[2];
+    const tip = landmarks[4];
+    if (!curled || !base || !tip || !landmarks[5]) return null;
+    if (Math.hypot(tip.x - landmarks[5].x, tip.y - landmarks[5].y) < palm * 0.6) return null;
+    const dx = tip.x - base.x;
+    const dy = tip.y - base.y;
+    if (dy < -Math.abs(dx)) return 'up';
+    if (dy > Math.abs(dx)) return 'down';
+    return 'side';
   }
 
   // Auto-calibrate if no saved calibration exists (uses reasonable defaults)
@@ -180,18 +282,19 @@ export default class GestureMapper {
     } catch (e) {}
   }
 
-  // Map detected hands to deck controls. Returns controls for decks A and B.
+  // Map detected hands to deck controls. Returns controls for every zone's deck.
   mapHandsToControls(hands: Array<Array<{ x: number; y: number; z?: number }>>, handedness?: any) {
-    const controls: Record<'A' | 'B', { assigned: boolean; volume: number; eq: { low: number; mid: number; high: number }; scrubDelta: number }> = {
-      A: { assigned: false, volume: 0.5, eq: { low: 0, mid: 0, high: 0 }, scrubDelta: 0 },
-      B: { assigned: false, volume: 0.5, eq: { low: 0, mid: 0, high: 0 }, scrubDelta: 0 },
-    };
+    const controls: Partial<Record<DeckId, HandControls>> = {};
+    this.zones.forEach((d) => {
+      controls[d] = { assigned: false, volume: 0.5, eq: { low: 0, mid: 0, high: 0 }, filter: 0, scrubDelta: 0 };
+    });
 
     hands.forEach((landmarks, i) => {
       if (!landmarks || landmarks.length === 0) return;
       // compute centroid x
       const centroidX = landmarks.reduce((s, p) => s + p.x, 0) / landmarks.length;
-      const deck = this.decideDeckForHand(i, centroidX);
+      const deck = this.deckForHand(i, centroidX);
+      const c = controls[deck]!;
 
       // finger tip indices
       const idx = landmarks[8];       // index → volume
@@ -205,11 +308,12 @@ export default class GestureMapper {
       const midG = ring ? (this.mapFingerY('ring', ring.y) * 2 - 1) * 12 : 0;
       const high = pinky ? (this.mapFingerY('pinky', pinky.y) * 2 - 1) * 12 : 0;
 
-      controls[deck].assigned = true;
-      controls[deck].volume = volume;
-      controls[deck].eq = { low, mid: midG, high };
+      c.assigned = true;
+      c.volume = volume;
+      c.eq = { low, mid: midG, high };
+      c.filter = this.mapFilterOffset(deck, centroidX);
       // scrubDelta placeholder (requires palm rotation calc) — left as 0 for now
-      controls[deck].scrubDelta = 0;
+      c.scrubDelta = 0;
     });
 
     return controls;